@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from "react";
-import { Download, Loader2, CheckCircle, Clock, Scissors, ImageIcon, Volume2, FileImage, Image } from "lucide-react";
+import { Download, Loader2, CheckCircle, Clock, Scissors, ImageIcon, Volume2, FileImage, Image, FileText, Shuffle, Lock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -9,18 +9,61 @@ import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import type { Video, Timestamp } from "@shared/schema";
+import type { Video, Timestamp, AspectRatio, FitMode, LoopFormat, ThumbnailPreset, ThumbnailFormat } from "@shared/schema";
+import { ASPECT_RATIO_PRESETS } from "@shared/aspectRatios";
+import type { TimestampMode } from "@shared/timestamps";
 
 interface ProcessingControlsProps {
   video: Video | null;
   timestampText: string;
+  timestampMode?: TimestampMode;
   onProcessingComplete: () => void;
   generateCutdowns?: boolean;
   generateGif?: boolean;
   generateThumbnails?: boolean;
   generateCanvas?: boolean;
-  aspectRatios?: ('16:9' | '9:16')[];
-  onAspectRatiosChange?: (ratios: ('16:9' | '9:16')[]) => void;
+  aspectRatios?: AspectRatio[];
+  onAspectRatiosChange?: (ratios: AspectRatio[]) => void;
+}
+
+const LOOP_FORMAT_OPTIONS: Array<{ value: LoopFormat; label: string; description: string }> = [
+  { value: 'gif', label: 'GIF', description: 'Plays everywhere' },
+  { value: 'webp', label: 'Animated WebP', description: 'Much smaller, most browsers and chat apps' },
+  { value: 'apng', label: 'APNG', description: 'Full color, larger files' },
+  { value: 'mp4', label: 'MP4 Loop', description: 'Silent H.264 "GIFV" for social and ads' },
+  { value: 'webm', label: 'WebM Loop', description: 'Silent VP9 "GIFV" for the web' },
+];
+
+const THUMBNAIL_PRESET_OPTIONS: Array<{ value: ThumbnailPreset; label: string; description: string }> = [
+  { value: 'original', label: 'Original', description: 'Source aspect, up to 1920x1080' },
+  { value: 'youtube', label: 'YouTube', description: '1280x720' },
+  { value: 'square', label: 'Square', description: '1080x1080' },
+  { value: 'vertical', label: 'Vertical', description: '1080x1920 for Stories and Reels' },
+  { value: 'portrait', label: 'Portrait 4:5', description: '1080x1350 for feeds' },
+];
+
+const FIT_MODE_OPTIONS: Array<{ value: FitMode; label: string }> = [
+  { value: 'source', label: 'Keep source shape' },
+  { value: 'crop', label: 'Crop to fill' },
+  { value: 'pad', label: 'Full frame, color bars' },
+  { value: 'blur', label: 'Full frame, blurred background' },
+  { value: 'image', label: 'Full frame, image background' },
+];
+
+const THUMBNAIL_FORMAT_OPTIONS: Array<{ value: ThumbnailFormat; label: string }> = [
+  { value: 'jpg', label: 'JPEG' },
+  { value: 'png', label: 'PNG' },
+  { value: 'webp', label: 'WebP' },
+  { value: 'avif', label: 'AVIF' },
+];
+
+// Upload name without its extension or characters the server refuses in a file name
+function defaultOutputName(video: Video): string {
+  return video.originalName
+    .replace(/\.[^/.]+$/, "")
+    .replace(/[\\/:*?"<>|\x00-\x1f]/g, "")
+    .replace(/^\.+$/, "")
+    .trim() || "export";
 }
 
 interface ProcessingStatus {
@@ -38,11 +81,20 @@ interface ProcessingStatus {
   startTime?: number;
   estimatedTimeLeft?: number;
   canCancel: boolean;
+  seed?: number;
+}
+
+// GIF and Canvas sections picked from a seed, as returned by /api/video/:id/auto-ranges
+interface AutoRangesPreview {
+  seed: number;
+  gifs: Array<{ startTime: string; endTime: string }>;
+  canvas: Array<{ startTime: string; endTime: string }>;
 }
 
 export default function ProcessingControls({
   video,
   timestampText,
+  timestampMode = 'ranges',
   onProcessingComplete,
   generateCutdowns = false,
   generateGif = false,
@@ -56,6 +108,37 @@ export default function ProcessingControls({
   const [videoFade, setVideoFade] = useState(false);
   const [audioFade, setAudioFade] = useState(false);
   const [fadeDuration, setFadeDuration] = useState("0.5");
+  const [generateCutList, setGenerateCutList] = useState(false);
+  const [snapToShots, setSnapToShots] = useState(false);
+  const [snapTolerance, setSnapTolerance] = useState("0.5");
+  const [reframe, setReframe] = useState("subject");
+  const [fitModes, setFitModes] = useState<Partial<Record<AspectRatio, FitMode>>>({});
+  const [padColor, setPadColor] = useState("#000000");
+  const [backgroundImage, setBackgroundImage] = useState<{ id: string; name: string } | null>(null);
+  const [isUploadingBackground, setIsUploadingBackground] = useState(false);
+  const [gifCount, setGifCount] = useState("10");
+  const [gifDuration, setGifDuration] = useState("6");
+  const [gifFps, setGifFps] = useState("10");
+  const [gifWidth, setGifWidth] = useState("640");
+  const [gifLoop, setGifLoop] = useState("0");
+  const [gifDither, setGifDither] = useState("bayer");
+  const [gifMaxMb, setGifMaxMb] = useState("");
+  const [gifFromTimestamps, setGifFromTimestamps] = useState(false);
+  const [gifCrossfade, setGifCrossfade] = useState("0");
+  const [gifMatchFrames, setGifMatchFrames] = useState(false);
+  const [loopFormats, setLoopFormats] = useState<LoopFormat[]>(['gif']);
+  const [thumbnailMode, setThumbnailMode] = useState("smart");
+  const [thumbnailCount, setThumbnailCount] = useState("10");
+  const [thumbnailPresets, setThumbnailPresets] = useState<ThumbnailPreset[]>(['original']);
+  const [thumbnailFormats, setThumbnailFormats] = useState<ThumbnailFormat[]>(['jpg']);
+  const [thumbnailQuality, setThumbnailQuality] = useState("92");
+  const [canvasDuration, setCanvasDuration] = useState("8");
+  const [canvasMode, setCanvasMode] = useState("boomerang");
+  const [crossfadeDuration, setCrossfadeDuration] = useState("0.5");
+  const [canvasFromTimestamps, setCanvasFromTimestamps] = useState(false);
+  const [canvasMatchFrames, setCanvasMatchFrames] = useState(false);
+  const [autoRanges, setAutoRanges] = useState<AutoRangesPreview | null>(null);
+  const [lockedSeed, setLockedSeed] = useState<number | null>(null);
   const [status, setStatus] = useState<ProcessingStatus>({
     isProcessing: false,
     progress: 0,
@@ -67,12 +150,12 @@ export default function ProcessingControls({
   });
   const { toast } = useToast();
   const pollIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const jobIdRef = useRef<number | null>(null);
 
   // Set default output name when video changes
   useEffect(() => {
     if (video && !outputName) {
-      const name = video.originalName.replace(/\.[^/.]+$/, ""); // Remove extension
-      setOutputName(name);
+      setOutputName(defaultOutputName(video));
     }
   }, [video, outputName]);
 
@@ -86,9 +169,66 @@ export default function ProcessingControls({
     };
   }, []);
 
-  const pollProgress = async (videoId: number) => {
+  // Picks belong to one video; a new upload starts unlocked
+  useEffect(() => {
+    setAutoRanges(null);
+    setLockedSeed(null);
+  }, [video?.id]);
+
+  const previewAutoRanges = async (seed?: number) => {
+    if (!video) return;
     try {
-      const response = await fetch(`/api/processing-progress/${videoId}`);
+      const params = new URLSearchParams({ gifCount, gifDuration, canvasDuration, canvasMode, crossfadeDuration });
+      if (seed !== undefined) params.set('seed', String(seed));
+      const response = await fetch(`/api/video/${video.id}/auto-ranges?${params}`);
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${response.statusText}`);
+      }
+      setAutoRanges(await response.json());
+    } catch (error) {
+      console.error('Preview picks error:', error);
+      toast({
+        title: "Preview failed",
+        description: "Could not pick GIF and Canvas sections. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Ratios without a pick use their preset's own fill mode
+  const fitModeFor = (ratio: AspectRatio): FitMode => fitModes[ratio] ?? ASPECT_RATIO_PRESETS[ratio].fit;
+  const selectedFitModes = aspectRatios.map(fitModeFor);
+
+  const handleBackgroundUpload = async (file: File) => {
+    setIsUploadingBackground(true);
+    try {
+      const formData = new FormData();
+      formData.append('image', file);
+
+      const response = await fetch('/api/backgrounds', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || `${response.status}: ${response.statusText}`);
+      }
+      setBackgroundImage({ id: data.backgroundImage, name: file.name });
+    } catch (error: any) {
+      console.error('Background upload error:', error);
+      toast({
+        title: "Upload failed",
+        description: error.message || "Could not upload the background image. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploadingBackground(false);
+    }
+  };
+
+  const pollProgress = async (jobId: number) => {
+    try {
+      const response = await fetch(`/api/jobs/${jobId}`);
       if (response.ok) {
         const data = await response.json();
         console.log('Raw progress data from server:', data);
@@ -130,6 +270,25 @@ export default function ProcessingControls({
       return;
     }
 
+    if (generateCutdowns && selectedFitModes.includes('image') && !backgroundImage) {
+      toast({
+        title: "Background image required",
+        description: "Please upload an image for the image background fill mode.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const useOwnTimestamps = (generateGif && gifFromTimestamps) || (generateCanvas && canvasFromTimestamps);
+    if (useOwnTimestamps && !timestampText.trim()) {
+      toast({
+        title: "Timestamps required",
+        description: "Please add timestamps to make GIFs or Canvas loops from.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setStatus({
       isProcessing: true,
       progress: 0,
@@ -142,20 +301,70 @@ export default function ProcessingControls({
     });
 
     try {
-      // Start the processing job and poll for progress
-      const processPromise = apiRequest('POST', '/api/process-clips-direct', {
+      // Queue the export job; the server worker keeps running it even if this page goes away
+      const response = await apiRequest('POST', '/api/jobs', {
         videoId: video.id,
-        timestampText: generateCutdowns ? timestampText : '',
-        outputName: outputName || video.originalName.replace(/\.[^/.]+$/, ""),
+        timestampText: generateCutdowns || useOwnTimestamps ? timestampText : '',
+        generateCutdowns,
+        timestampMode,
+        outputName: outputName.trim() || defaultOutputName(video),
         quality,
         videoFade,
         audioFade,
         fadeDuration: parseFloat(fadeDuration),
+        generateCutList: generateCutdowns && generateCutList,
+        snapToShots: generateCutdowns && snapToShots,
+        snapTolerance: parseFloat(snapTolerance),
+        seed: lockedSeed ?? undefined,
         aspectRatios,
+        reframe,
+        fitModes,
+        padColor,
+        backgroundImage: backgroundImage?.id,
         generateGif,
+        gif: {
+          count: parseInt(gifCount),
+          duration: parseFloat(gifDuration),
+          fps: parseInt(gifFps),
+          width: parseInt(gifWidth),
+          loop: parseInt(gifLoop),
+          dither: gifDither,
+          crossfadeDuration: parseFloat(gifCrossfade),
+          matchFrames: gifMatchFrames,
+          maxBytes: gifMaxMb ? Math.round(parseFloat(gifMaxMb) * 1024 * 1024) : undefined,
+          source: gifFromTimestamps ? 'timestamps' : 'random',
+          formats: loopFormats,
+        },
         generateThumbnails,
-        generateCanvas
+        thumbnails: {
+          mode: thumbnailMode,
+          count: parseInt(thumbnailCount),
+          presets: thumbnailPresets,
+          formats: thumbnailFormats,
+          quality: parseInt(thumbnailQuality),
+        },
+        generateCanvas,
+        canvas: {
+          duration: parseFloat(canvasDuration),
+          mode: canvasMode,
+          crossfadeDuration: parseFloat(crossfadeDuration),
+          matchFrames: canvasMatchFrames,
+          source: canvasFromTimestamps ? 'timestamps' : 'random',
+        }
       });
+      const { jobId, seed, snapped = [], warnings = [] } = await response.json();
+      jobIdRef.current = jobId;
+      setStatus(prev => ({ ...prev, seed }));
+
+      if (snapToShots && generateCutdowns) {
+        const notSnapped = warnings.find((warning: string) => warning.includes('not snapped'));
+        toast({
+          title: notSnapped ? "Clips not snapped" : "Snapped to shot changes",
+          description: notSnapped
+            ? notSnapped.replace(/^Line \d+: /, '')
+            : `${snapped.length} clip${snapped.length !== 1 ? 's' : ''} moved onto the nearest shot change.`,
+        });
+      }
 
       // Clear any existing polling interval
       if (pollIntervalRef.current) {
@@ -163,7 +372,7 @@ export default function ProcessingControls({
       }
 
       // Poll immediately once
-      const initialProgress = await pollProgress(video.id);
+      const initialProgress = await pollProgress(jobId);
       if (initialProgress && initialProgress.status === 'completed') {
         setStatus(prev => ({
           ...prev,
@@ -185,7 +394,7 @@ export default function ProcessingControls({
 
       // Start polling for progress updates
       pollIntervalRef.current = setInterval(async () => {
-        const progressData = await pollProgress(video.id);
+        const progressData = await pollProgress(jobId);
         if (progressData) {
           console.log('Progress update received:', progressData);
           setStatus(prev => {
@@ -267,21 +476,21 @@ export default function ProcessingControls({
               description: progressData.errors?.[0] || "Failed to process clips",
               variant: "destructive",
             });
+          } else if (progressData.status === 'cancelled') {
+            // Cancelled elsewhere (another tab or the API) - stop polling quietly
+            if (pollIntervalRef.current) {
+              clearInterval(pollIntervalRef.current);
+              pollIntervalRef.current = null;
+            }
+            setStatus(prev => ({
+              ...prev,
+              isProcessing: false,
+              canCancel: false,
+            }));
           }
         }
       }, 1000); // Poll every second
 
-      // Wait for the processing request to complete as backup
-      try {
-        await processPromise;
-      } catch (processError) {
-        if (pollIntervalRef.current) {
-          clearInterval(pollIntervalRef.current);
-          pollIntervalRef.current = null;
-        }
-        throw processError;
-      }
-
     } catch (error: any) {
       console.error('Processing error:', error);
       setStatus(prev => ({
@@ -299,10 +508,10 @@ export default function ProcessingControls({
   };
 
   const handleCancel = async () => {
-    if (!video) return;
+    if (!jobIdRef.current) return;
     
     try {
-      await apiRequest('POST', `/api/cancel-processing/${video.id}`);
+      await apiRequest('POST', `/api/jobs/${jobIdRef.current}/cancel`);
       setStatus(prev => ({
         ...prev,
         isProcessing: false,
@@ -428,11 +637,61 @@ export default function ProcessingControls({
                   </Select>
                 </div>
               )}
+
+              {/* Shot Snapping Toggle */}
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Scissors className="w-4 h-4 text-orange-600" />
+                  <div>
+                    <Label className="text-sm font-medium">Snap to Shot Changes</Label>
+                    <p className="text-xs text-gray-500">Start and end clips on the nearest cut in the video</p>
+                  </div>
+                </div>
+                <Switch
+                  checked={snapToShots}
+                  onCheckedChange={setSnapToShots}
+                />
+              </div>
+
+              {snapToShots && (
+                <div className="space-y-2 pl-6 border-l-2 border-purple-200">
+                  <Label className="text-sm">Snap Within</Label>
+                  <Select 
+                    value={snapTolerance} 
+                    onValueChange={(value) => setSnapTolerance(value)}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select snap tolerance" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="0.25">0.25 seconds (Tight)</SelectItem>
+                      <SelectItem value="0.5">0.5 seconds (Standard)</SelectItem>
+                      <SelectItem value="1.0">1.0 seconds (Loose)</SelectItem>
+                      <SelectItem value="2.0">2.0 seconds (Very loose)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {/* Cut List Toggle */}
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <FileText className="w-4 h-4 text-gray-600" />
+                  <div>
+                    <Label className="text-sm font-medium">Include Cut List</Label>
+                    <p className="text-xs text-gray-500">EDL, FCPXML and JSON to relink clips to the master</p>
+                  </div>
+                </div>
+                <Switch
+                  checked={generateCutList}
+                  onCheckedChange={setGenerateCutList}
+                />
+              </div>
             </div>
           )}
 
           {/* Show current Stage 2 settings (read-only) */}
-          {(generateGif || generateThumbnails) && (
+          {(generateGif || generateThumbnails || generateCanvas) && (
             <div className="space-y-4 border-t pt-4">
               <h4 className="font-medium text-gray-700 flex items-center gap-2">
                 <span className="bg-gradient-to-r from-green-500 to-blue-500 text-white px-2 py-1 rounded-md text-xs">STAGE 2</span>
@@ -442,14 +701,220 @@ export default function ProcessingControls({
               {generateGif && (
                 <div className="flex items-center gap-2 text-sm text-gray-600">
                   <FileImage className="w-4 h-4 text-orange-600" />
-                  <span>10 GIFs (6-second clips, 640x480)</span>
+                  <span>
+                    {gifFromTimestamps ? `Up to ${gifCount} GIFs from your timestamps` : `${gifCount} GIFs`} ({gifDuration}-second clips, {gifWidth}px wide, {gifFps}fps)
+                    {loopFormats.some(f => f !== 'gif') && ` as ${loopFormats.map(f => f.toUpperCase()).join(', ')}`}
+                  </span>
+                </div>
+              )}
+
+              {/* GIF settings */}
+              {generateGif && (
+                <div className="space-y-3 pl-6 border-l-2 border-orange-200">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label className="text-sm">Count</Label>
+                      <Input type="number" min={1} max={30} value={gifCount} onChange={(e) => setGifCount(e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-sm">Length (seconds)</Label>
+                      <Input type="number" min={1} max={30} step={0.5} value={gifDuration} onChange={(e) => setGifDuration(e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-sm">Width</Label>
+                      <Select value={gifWidth} onValueChange={(value) => setGifWidth(value)}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Select width" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="320">320px</SelectItem>
+                          <SelectItem value="480">480px</SelectItem>
+                          <SelectItem value="640">640px</SelectItem>
+                          <SelectItem value="800">800px</SelectItem>
+                          <SelectItem value="1080">1080px</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-sm">Frame Rate</Label>
+                      <Select value={gifFps} onValueChange={(value) => setGifFps(value)}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Select frame rate" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="8">8 fps</SelectItem>
+                          <SelectItem value="10">10 fps</SelectItem>
+                          <SelectItem value="12">12 fps</SelectItem>
+                          <SelectItem value="15">15 fps</SelectItem>
+                          <SelectItem value="24">24 fps</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-sm">Loop</Label>
+                      <Select value={gifLoop} onValueChange={(value) => setGifLoop(value)}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Select looping" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="0">Forever</SelectItem>
+                          <SelectItem value="-1">Play once</SelectItem>
+                          <SelectItem value="2">3 times</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-sm">Dither</Label>
+                      <Select value={gifDither} onValueChange={(value) => setGifDither(value)}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Select dither" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="bayer">Bayer (Smaller)</SelectItem>
+                          <SelectItem value="floyd_steinberg">Floyd-Steinberg (Smoother)</SelectItem>
+                          <SelectItem value="sierra2_4a">Sierra (Balanced)</SelectItem>
+                          <SelectItem value="none">None (Banding)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-sm">Loop Crossfade</Label>
+                    <Select value={gifCrossfade} onValueChange={(value) => setGifCrossfade(value)}>
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Select crossfade" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="0">None (hard cut)</SelectItem>
+                        <SelectItem value="0.25">0.25 seconds</SelectItem>
+                        <SelectItem value="0.5">0.5 seconds</SelectItem>
+                        <SelectItem value="1.0">1.0 seconds</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label className="text-sm font-medium">Match Loop Frames</Label>
+                      <p className="text-xs text-gray-500">End each GIF on the frame most like its first, shortening it slightly if needed</p>
+                    </div>
+                    <Switch
+                      checked={gifMatchFrames}
+                      onCheckedChange={setGifMatchFrames}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-sm">Max Size per GIF (MB, optional)</Label>
+                    <Input type="number" min={0.1} step={0.1} placeholder="No limit" value={gifMaxMb} onChange={(e) => setGifMaxMb(e.target.value)} />
+                    <p className="text-xs text-gray-500">Colors, frame rate and width are lowered until each GIF fits; sizes are listed in the GIF report</p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-sm">Formats</Label>
+                    {LOOP_FORMAT_OPTIONS.map(({ value, label, description }) => (
+                      <div key={value} className="flex items-center justify-between">
+                        <div>
+                          <Label className="text-sm font-medium">{label}</Label>
+                          <p className="text-xs text-gray-500">{description}</p>
+                        </div>
+                        <Switch
+                          checked={loopFormats.includes(value)}
+                          onCheckedChange={(checked) => {
+                            const formats = checked
+                              ? [...loopFormats.filter(f => f !== value), value]
+                              : loopFormats.filter(f => f !== value);
+                            setLoopFormats(formats.length === 0 ? ['gif'] : formats);
+                          }}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label className="text-sm font-medium">GIFs From Timestamps</Label>
+                      <p className="text-xs text-gray-500">One GIF from the start of each timestamp instead of random sections</p>
+                    </div>
+                    <Switch
+                      checked={gifFromTimestamps}
+                      onCheckedChange={setGifFromTimestamps}
+                    />
+                  </div>
                 </div>
               )}
               
               {generateThumbnails && (
                 <div className="flex items-center gap-2 text-sm text-gray-600">
                   <Image className="w-4 h-4 text-purple-600" />
-                  <span>10 Thumbnails (high-quality stills)</span>
+                  <span>
+                    {thumbnailCount} Thumbnails ({thumbnailMode === 'smart' ? 'best frames' : 'evenly spaced'}
+                    {thumbnailPresets.length * thumbnailFormats.length > 1 && `, ${thumbnailPresets.length * thumbnailFormats.length} versions of each`})
+                  </span>
+                </div>
+              )}
+
+              {/* Thumbnail settings */}
+              {generateThumbnails && (
+                <div className="space-y-3 pl-6 border-l-2 border-purple-200">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label className="text-sm">Count</Label>
+                      <Input type="number" min={1} max={30} value={thumbnailCount} onChange={(e) => setThumbnailCount(e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-sm">Frame Selection</Label>
+                      <Select value={thumbnailMode} onValueChange={(value) => setThumbnailMode(value)}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Select frame selection" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="smart">Best frames (skip black, blurry and transition frames)</SelectItem>
+                          <SelectItem value="even">Evenly spaced</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-sm">Sizes</Label>
+                    {THUMBNAIL_PRESET_OPTIONS.map(({ value, label, description }) => (
+                      <div key={value} className="flex items-center justify-between">
+                        <div>
+                          <Label className="text-sm font-medium">{label}</Label>
+                          <p className="text-xs text-gray-500">{description}</p>
+                        </div>
+                        <Switch
+                          checked={thumbnailPresets.includes(value)}
+                          onCheckedChange={(checked) => {
+                            const presets = checked
+                              ? [...thumbnailPresets.filter(p => p !== value), value]
+                              : thumbnailPresets.filter(p => p !== value);
+                            setThumbnailPresets(presets.length === 0 ? ['original'] : presets);
+                          }}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label className="text-sm">Formats</Label>
+                      {THUMBNAIL_FORMAT_OPTIONS.map(({ value, label }) => (
+                        <div key={value} className="flex items-center justify-between">
+                          <Label className="text-sm font-medium">{label}</Label>
+                          <Switch
+                            checked={thumbnailFormats.includes(value)}
+                            onCheckedChange={(checked) => {
+                              const formats = checked
+                                ? [...thumbnailFormats.filter(f => f !== value), value]
+                                : thumbnailFormats.filter(f => f !== value);
+                              setThumbnailFormats(formats.length === 0 ? ['jpg'] : formats);
+                            }}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-sm">Quality</Label>
+                      <Input type="number" min={1} max={100} value={thumbnailQuality} onChange={(e) => setThumbnailQuality(e.target.value)} />
+                      <p className="text-xs text-gray-500">1-100; PNG is always lossless</p>
+                    </div>
+                  </div>
                 </div>
               )}
               
@@ -458,7 +923,130 @@ export default function ProcessingControls({
                   <div className="w-4 h-4 bg-gradient-to-r from-purple-500 to-green-500 rounded flex items-center justify-center">
                     <span className="text-white text-xs font-bold">S3</span>
                   </div>
-                  <span>5 Spotify Canvas Loops (1080x1920, 8s)</span>
+                  <span>
+                    {canvasFromTimestamps ? 'Spotify Canvas Loops from your timestamps' : '5 Spotify Canvas Loops'} (1080x1920, {canvasDuration}s {canvasMode})
+                  </span>
+                </div>
+              )}
+
+              {/* Canvas settings */}
+              {generateCanvas && (
+                <div className="space-y-3 pl-6 border-l-2 border-green-200">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label className="text-sm">Length</Label>
+                      <Select value={canvasDuration} onValueChange={(value) => setCanvasDuration(value)}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Select length" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="3">3 seconds</SelectItem>
+                          <SelectItem value="4">4 seconds</SelectItem>
+                          <SelectItem value="5">5 seconds</SelectItem>
+                          <SelectItem value="6">6 seconds</SelectItem>
+                          <SelectItem value="7">7 seconds</SelectItem>
+                          <SelectItem value="8">8 seconds</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-sm">Loop Style</Label>
+                      <Select value={canvasMode} onValueChange={(value) => setCanvasMode(value)}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Select loop style" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="boomerang">Boomerang (forward then reversed)</SelectItem>
+                          <SelectItem value="crossfade">Crossfade (end blends into start)</SelectItem>
+                          <SelectItem value="cut">Hard cut</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  {canvasMode === 'crossfade' && (
+                    <div className="space-y-1">
+                      <Label className="text-sm">Crossfade</Label>
+                      <Select value={crossfadeDuration} onValueChange={(value) => setCrossfadeDuration(value)}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Select crossfade" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="0.25">0.25 seconds</SelectItem>
+                          <SelectItem value="0.5">0.5 seconds</SelectItem>
+                          <SelectItem value="1.0">1.0 seconds</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  {canvasMode !== 'boomerang' && (
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <Label className="text-sm font-medium">Match Loop Frames</Label>
+                        <p className="text-xs text-gray-500">End each loop on the frame most like its first, shortening it slightly if needed</p>
+                      </div>
+                      <Switch
+                        checked={canvasMatchFrames}
+                        onCheckedChange={setCanvasMatchFrames}
+                      />
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label className="text-sm font-medium">Canvas From Timestamps</Label>
+                      <p className="text-xs text-gray-500">One loop from the start of each timestamp instead of random sections</p>
+                    </div>
+                    <Switch
+                      checked={canvasFromTimestamps}
+                      onCheckedChange={setCanvasFromTimestamps}
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500">Each loop is checked against Spotify's Canvas spec; problems are listed with the results</p>
+                </div>
+              )}
+
+              {/* Preview and lock the randomly picked sections */}
+              {(generateGif || generateCanvas) && (
+                <div className="space-y-3 pl-6 border-l-2 border-green-200">
+                  <div className="flex items-center gap-2">
+                    <Button
+                      onClick={() => previewAutoRanges()}
+                      disabled={!video || lockedSeed !== null}
+                      variant="outline"
+                      size="sm"
+                    >
+                      <Shuffle className="w-4 h-4 mr-2" />
+                      {autoRanges ? 'Shuffle Picks' : 'Preview Picks'}
+                    </Button>
+                    {autoRanges && (
+                      <span className="text-xs text-gray-500">Seed {autoRanges.seed}</span>
+                    )}
+                  </div>
+
+                  {autoRanges && (
+                    <>
+                      <div className="text-xs text-gray-600 space-y-1 font-mono">
+                        {generateGif && !gifFromTimestamps && autoRanges.gifs.map((range, index) => (
+                          <div key={`gif-${index}`}>GIF {String(index + 1).padStart(2, '0')}: {range.startTime} - {range.endTime}</div>
+                        ))}
+                        {generateCanvas && !canvasFromTimestamps && autoRanges.canvas.map((range, index) => (
+                          <div key={`canvas-${index}`}>Canvas {String(index + 1).padStart(2, '0')}: {range.startTime} - {range.endTime}</div>
+                        ))}
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <Lock className="w-4 h-4 text-gray-600" />
+                          <div>
+                            <Label className="text-sm font-medium">Lock These Picks</Label>
+                            <p className="text-xs text-gray-500">Render exactly these sections, and again with the same seed</p>
+                          </div>
+                        </div>
+                        <Switch
+                          checked={lockedSeed !== null}
+                          onCheckedChange={(checked) => setLockedSeed(checked ? autoRanges.seed : null)}
+                        />
+                      </div>
+                    </>
+                  )}
                 </div>
               )}
             </div>
@@ -478,64 +1066,122 @@ export default function ProcessingControls({
             </h3>
           </div>
           <p className="text-sm text-gray-600 dark:text-gray-400">
-            Choose your export format(s) - select multiple for dual format exports
+            Choose your export format(s) - select several to export each clip in every shape
           </p>
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div className="flex items-center justify-between p-3 bg-white dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600">
-              <div className="flex items-center space-x-3">
-                <div className="w-8 h-5 bg-blue-100 dark:bg-blue-900 border border-blue-300 dark:border-blue-600 rounded flex items-center justify-center">
-                  <span className="text-xs font-medium text-blue-600 dark:text-blue-300">16:9</span>
-                </div>
-                <div>
-                  <Label className="text-sm font-medium text-gray-700 dark:text-gray-300">Widescreen</Label>
-                  <p className="text-xs text-gray-500 dark:text-gray-400">YouTube, desktop platforms</p>
+            {(Object.keys(ASPECT_RATIO_PRESETS) as AspectRatio[]).map((ratio) => {
+              const { width, height, label, description } = ASPECT_RATIO_PRESETS[ratio];
+              return (
+                <div key={ratio} className="flex items-center justify-between p-3 bg-white dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600">
+                  <div className="flex items-center space-x-3">
+                    <div className="w-10 h-10 flex items-center justify-center">
+                      <div
+                        className="bg-purple-100 dark:bg-purple-900 border border-purple-300 dark:border-purple-600 rounded flex items-center justify-center"
+                        style={width >= height ? { width: 40, height: Math.round(40 * height / width) } : { width: Math.round(40 * width / height), height: 40 }}
+                      >
+                        <span className="text-[10px] font-medium text-purple-600 dark:text-purple-300">{ratio}</span>
+                      </div>
+                    </div>
+                    <div>
+                      <Label className="text-sm font-medium text-gray-700 dark:text-gray-300">{label}</Label>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{description}</p>
+                    </div>
+                  </div>
+                  <Switch
+                    checked={aspectRatios.includes(ratio)}
+                    onCheckedChange={(checked) => {
+                      if (onAspectRatiosChange) {
+                        const newRatios = checked 
+                          ? [...aspectRatios.filter(r => r !== ratio), ratio]
+                          : aspectRatios.filter(r => r !== ratio);
+                        onAspectRatiosChange(newRatios.length === 0 ? ['16:9'] : newRatios);
+                      }
+                    }}
+                  />
                 </div>
+              );
+            })}
+          </div>
+          
+          <div className="space-y-2 pl-6 border-l-2 border-purple-200">
+            <Label className="text-sm">Fill Mode</Label>
+            {aspectRatios.map((ratio) => (
+              <div key={ratio} className="flex items-center gap-3">
+                <span className="w-12 text-sm font-medium text-gray-700 dark:text-gray-300">{ratio}</span>
+                <Select
+                  value={fitModeFor(ratio)}
+                  onValueChange={(value) => setFitModes({ ...fitModes, [ratio]: value as FitMode })}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Select fill mode" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FIT_MODE_OPTIONS
+                      // Keeping the source shape only fits ratios that already default to it
+                      .filter(({ value }) => value !== 'source' || ASPECT_RATIO_PRESETS[ratio].fit === 'source')
+                      .map(({ value, label }) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
               </div>
-              <Switch
-                checked={aspectRatios.includes('16:9')}
-                onCheckedChange={(checked) => {
-                  if (onAspectRatiosChange) {
-                    const newRatios = checked 
-                      ? [...aspectRatios.filter(r => r !== '16:9'), '16:9']
-                      : aspectRatios.filter(r => r !== '16:9');
-                    onAspectRatiosChange(newRatios.length === 0 ? ['16:9'] : newRatios);
-                  }
-                }}
-              />
-            </div>
-            
-            <div className="flex items-center justify-between p-3 bg-white dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600">
-              <div className="flex items-center space-x-3">
-                <div className="w-5 h-8 bg-purple-100 dark:bg-purple-900 border border-purple-300 dark:border-purple-600 rounded flex items-center justify-center">
-                  <span className="text-xs font-medium text-purple-600 dark:text-purple-300 transform rotate-90">9:16</span>
-                </div>
-                <div>
-                  <Label className="text-sm font-medium text-gray-700 dark:text-gray-300">Vertical + Motion Tracking</Label>
-                  <p className="text-xs text-gray-500 dark:text-gray-400">TikTok, Reels, Stories</p>
-                </div>
+            ))}
+
+            {selectedFitModes.includes('pad') && (
+              <div className="flex items-center gap-3">
+                <Label className="text-sm">Bar Color</Label>
+                <Input type="color" className="w-16 h-9 p-1" value={padColor} onChange={(e) => setPadColor(e.target.value)} />
               </div>
-              <Switch
-                checked={aspectRatios.includes('9:16')}
-                onCheckedChange={(checked) => {
-                  if (onAspectRatiosChange) {
-                    const newRatios = checked 
-                      ? [...aspectRatios.filter(r => r !== '9:16'), '9:16']
-                      : aspectRatios.filter(r => r !== '9:16');
-                    onAspectRatiosChange(newRatios.length === 0 ? ['16:9'] : newRatios);
-                  }
-                }}
-              />
-            </div>
+            )}
+
+            {selectedFitModes.includes('image') && (
+              <div className="space-y-1">
+                <Label className="text-sm">Background Image</Label>
+                <Input
+                  type="file"
+                  accept=".jpg,.jpeg,.png,.webp"
+                  disabled={isUploadingBackground}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleBackgroundUpload(file);
+                    e.target.value = '';
+                  }}
+                />
+                <p className="text-xs text-gray-500">
+                  {isUploadingBackground
+                    ? 'Uploading...'
+                    : backgroundImage ? `Using ${backgroundImage.name}` : 'JPEG, PNG or WebP, scaled to cover the frame'}
+                </p>
+              </div>
+            )}
           </div>
-          
+
+          {selectedFitModes.includes('crop') && (
+            <div className="space-y-2 pl-6 border-l-2 border-purple-200">
+              <Label className="text-sm">Crop Framing</Label>
+              <Select value={reframe} onValueChange={setReframe}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select framing" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="subject">Follow subject (per shot)</SelectItem>
+                  <SelectItem value="center">Center crop</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">
+                Add @left, @right or @x=-0.4 to a timestamp line to place that clip's crop yourself
+              </p>
+            </div>
+          )}
+
           {aspectRatios.length > 1 && (
             <div className="mt-3 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
               <p className="text-sm text-blue-700 dark:text-blue-300 font-medium">
-                Dual Export: Both {aspectRatios.join(' and ')} versions will be generated
+                Multi-Format Export: {aspectRatios.join(', ')} versions will be generated
               </p>
               <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">
-                Organized in separate folders: "clips (16x9)" and "clips (9x16)"
+                Organized in separate folders: {aspectRatios.map(ratio => `"${ASPECT_RATIO_PRESETS[ratio].folder}"`).join(', ')}
               </p>
             </div>
           )}
@@ -672,6 +1318,9 @@ export default function ProcessingControls({
                 return outputs.length > 0 ? outputs.join(', ') : 'content';
               })()} and packaged them for download.
             </p>
+            {status.seed !== undefined && (status.totalGifs || status.totalCanvas) ? (
+              <p className="text-xs text-green-700 mb-4">Seed {status.seed} - use it to render the same GIF and Canvas picks again</p>
+            ) : null}
             <Progress value={100} className="h-2 mb-4 bg-green-100" />
             <Button
               onClick={handleDownload}
@@ -1,27 +1,50 @@
-import { useState } from "react";
-import { Info, Shuffle, Wand2 } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { FileUp, Info, Shuffle, Wand2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import type { Timestamp } from "@shared/schema";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  parseTimestampText,
+  videoTimestampOptions,
+  formatTimestampIssue,
+  formatTimestampLine,
+  type ParsedTimestamp,
+  type TimestampMode,
+  type TimestampParseResult,
+} from "@shared/timestamps";
+import type { Video } from "@shared/schema";
 
 interface TimestampInputProps {
-  videoId?: number;
+  video: Video | null;
   timestampText: string;
   setTimestampText: (text: string) => void;
-  onTimestampsParsed: (data: { timestamps: Timestamp[]; errors: string[]; warnings: string[] }) => void;
+  timestampMode: TimestampMode;
+  setTimestampMode: (mode: TimestampMode) => void;
+  onTimestampsParsed: (data: TimestampParseResult) => void;
 }
 
 export default function TimestampInput({
-  videoId,
+  video,
   timestampText,
   setTimestampText,
+  timestampMode,
+  setTimestampMode,
   onTimestampsParsed,
 }: TimestampInputProps) {
   const [isProcessing, setIsProcessing] = useState(false);
+  const cutListInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const videoId = video?.id;
+
+  // Live preview with the same parser the server uses when it queues the job
+  useEffect(() => {
+    const options = video ? videoTimestampOptions(video) : {};
+    onTimestampsParsed(parseTimestampText(timestampText, { ...options, mode: timestampMode }));
+  }, [timestampText, timestampMode, video]);
 
   const handleParseTimestamps = async () => {
     if (!videoId) {
@@ -48,6 +71,7 @@ export default function TimestampInput({
       const response = await apiRequest('POST', '/api/parse-timestamps', {
         text: timestampText,
         videoId,
+        mode: timestampMode,
       });
       
       const data = await response.json();
@@ -79,6 +103,61 @@ export default function TimestampInput({
     }
   };
 
+  // Selects marked in an NLE come back as timestamp text, so they can be reviewed and edited like typed ones
+  const handleImportCutList = async (file: File) => {
+    if (!videoId) {
+      return;
+    }
+
+    setIsProcessing(true);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch(`/api/video/${videoId}/import-timestamps`, {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || `${response.status}: ${response.statusText}`);
+      }
+
+      if (data.timestamps.length > 0) {
+        setTimestampMode('ranges');
+        setTimestampText(data.text);
+        toast({
+          title: "Timestamps imported",
+          description: `Imported ${data.timestamps.length} clip${data.timestamps.length !== 1 ? 's' : ''} from ${file.name}.`,
+        });
+      }
+
+      // Line numbers refer to the imported file, not the timestamp box, so report them here
+      const issues = [...data.errors, ...data.warnings];
+      if (issues.length > 0) {
+        toast({
+          title: data.errors.length > 0 ? "Some entries couldn't be imported" : "Imported with warnings",
+          description: issues.slice(0, 3).map(formatTimestampIssue).join('\n')
+            + (issues.length > 3 ? `\n...and ${issues.length - 3} more` : ''),
+          variant: data.errors.length > 0 ? "destructive" : "default",
+        });
+      }
+    } catch (error: any) {
+      console.error('Import timestamps error:', error);
+      toast({
+        title: "Import failed",
+        description: error.message || "Failed to import timestamps. Please check the file and try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+      if (cutListInputRef.current) {
+        cutListInputRef.current.value = '';
+      }
+    }
+  };
+
   const handleGenerate5Cuts = async () => {
     if (!videoId) {
       toast({
@@ -94,26 +173,26 @@ export default function TimestampInput({
     try {
       const response = await apiRequest('POST', '/api/generate-5-cuts', {
         videoId,
+        mode: 'smart',
       });
       
       const data = await response.json();
       
       if (data.timestamps && data.timestamps.length > 0) {
-        // Convert to text format and set it
-        const timestampLines = data.timestamps.map((ts: Timestamp) => 
-          `${ts.startTime} - ${ts.endTime}`
-        ).join('\n');
+        // Convert to text format and set it; each smart suggestion keeps its reason as a comment
+        const timestampLines = data.timestamps.map((ts: ParsedTimestamp) => {
+          const reason = data.suggestions?.[ts.line - 1]?.reason;
+          return `${formatTimestampLine(ts)}${reason ? ` # ${reason}` : ''}`;
+        }).join('\n');
         
+        setTimestampMode('ranges');
         setTimestampText(timestampLines);
-        onTimestampsParsed({
-          timestamps: data.timestamps,
-          errors: data.errors || [],
-          warnings: data.warnings || []
-        });
         
         toast({
           title: "Clips generated!",
-          description: `Generated ${data.timestamps.length} clips optimized for your video length.`,
+          description: data.mode === 'smart'
+            ? `Generated ${data.timestamps.length} clips on the beat from the strongest sections of the track.`
+            : `Generated ${data.timestamps.length} clips optimized for your video length.${data.fallbackReason ? ` (${data.fallbackReason})` : ''}`,
         });
       } else {
         toast({
@@ -144,7 +223,7 @@ export default function TimestampInput({
               <Wand2 className="w-5 h-5 text-purple-600" />
               <div>
                 <h3 className="font-medium text-gray-800">Quick Start</h3>
-                <p className="text-sm text-gray-600">Auto-generate clips based on video length</p>
+                <p className="text-sm text-gray-600">Auto-generate clips on the beat from the strongest sections</p>
               </div>
             </div>
             <Button
@@ -171,20 +250,56 @@ export default function TimestampInput({
               </TooltipTrigger>
               <TooltipContent>
                 <p className="text-sm">Supports various formats (: ; .) and separators (- – ,)</p>
+                <p className="text-sm">Milliseconds (1:23.500) and SMPTE frames (00:01:23:12) cut on the exact frame</p>
+                <p className="text-sm">Name clips with a label (Hook 0:45-1:00), give a length with +15s, comment with #</p>
               </TooltipContent>
             </Tooltip>
+            <Button
+              onClick={() => cutListInputRef.current?.click()}
+              disabled={!videoId || isProcessing}
+              variant="ghost"
+              size="sm"
+              className="ml-auto text-gray-600"
+            >
+              <FileUp className="w-4 h-4 mr-2" />
+              Import EDL / XML / CSV
+            </Button>
+            <input
+              ref={cutListInputRef}
+              type="file"
+              accept=".edl,.fcpxml,.xml,.csv,.tsv,.txt"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImportCutList(file);
+              }}
+            />
           </div>
           <Textarea
             value={timestampText}
             onChange={(e) => setTimestampText(e.target.value)}
             className="w-full h-32 resize-none focus:ring-2 focus:ring-brand-green focus:border-transparent"
-            placeholder={`Enter timestamps, one per line:
+            placeholder={timestampMode === 'chapters' ? `Enter chapter start times, one per line:
+0:00 Intro
+0:45 Hook
+1:30 Verse 1` : `Enter timestamps, one per line:
 0:16-0:35
-0:44-1:01
-1:01-1:19
+Hook 0:44 +15s
+Verse 2: 1:01-1:19 # no fade
+Bridge 2:10-2:25 @left
 
 Or use "Auto Generate" above for quick start!`}
           />
+          <div className="flex items-center justify-between">
+            <div>
+              <Label className="text-sm font-medium">Chapters mode</Label>
+              <p className="text-xs text-gray-500">One timestamp per line - each clip runs until the next one starts</p>
+            </div>
+            <Switch
+              checked={timestampMode === 'chapters'}
+              onCheckedChange={(checked) => setTimestampMode(checked ? 'chapters' : 'ranges')}
+            />
+          </div>
         </div>
 
         {/* Parse Button */}
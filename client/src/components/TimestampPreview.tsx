@@ -1,45 +1,27 @@
 import { Trash2, AlertTriangle, CheckCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import type { Timestamp } from "@shared/schema";
+import { formatTimestampIssue, type ParsedTimestamp, type TimestampIssue } from "@shared/timestamps";
 
 interface TimestampPreviewProps {
-  timestamps: Timestamp[];
-  setTimestamps: (timestamps: Timestamp[]) => void;
-  errors: string[];
-  warnings: string[];
+  timestamps: ParsedTimestamp[];
+  onRemoveLine: (line: number) => void;
+  errors: TimestampIssue[];
+  warnings: TimestampIssue[];
 }
 
 export default function TimestampPreview({
   timestamps,
-  setTimestamps,
+  onRemoveLine,
   errors,
   warnings,
 }: TimestampPreviewProps) {
-  const calculateDuration = (startTime: string, endTime: string): string => {
-    const start = timeToSeconds(startTime);
-    const end = timeToSeconds(endTime);
-    const duration = end - start;
-    
+  const formatDuration = (duration: number): string => {
     const minutes = Math.floor(duration / 60);
-    const seconds = duration % 60;
+    // Keep sub-second precision for millisecond and frame timestamps
+    const [seconds, fraction] = (Math.round((duration % 60) * 1000) / 1000).toString().split('.');
     
-    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
-  };
-
-  const timeToSeconds = (timeStr: string): number => {
-    const parts = timeStr.split(':').map(Number);
-    if (parts.length === 3) {
-      return parts[0] * 3600 + parts[1] * 60 + parts[2];
-    } else if (parts.length === 2) {
-      return parts[0] * 60 + parts[1];
-    }
-    return 0;
-  };
-
-  const handleRemoveTimestamp = (index: number) => {
-    const newTimestamps = timestamps.filter((_, i) => i !== index);
-    setTimestamps(newTimestamps);
+    return `${minutes}:${seconds.padStart(2, '0')}${fraction ? `.${fraction}` : ''}`;
   };
 
   return (
@@ -50,7 +32,7 @@ export default function TimestampPreview({
           {errors.map((error, index) => (
             <Alert key={index} variant="destructive">
               <AlertTriangle className="w-4 h-4" />
-              <AlertDescription>{error}</AlertDescription>
+              <AlertDescription>{formatTimestampIssue(error)}</AlertDescription>
             </Alert>
           ))}
         </div>
@@ -62,7 +44,7 @@ export default function TimestampPreview({
           {warnings.map((warning, index) => (
             <Alert key={index} className="border-yellow-200 bg-yellow-50">
               <AlertTriangle className="w-4 h-4 text-yellow-600" />
-              <AlertDescription className="text-yellow-800">{warning}</AlertDescription>
+              <AlertDescription className="text-yellow-800">{formatTimestampIssue(warning)}</AlertDescription>
             </Alert>
           ))}
         </div>
@@ -83,19 +65,19 @@ export default function TimestampPreview({
             >
               <div className="flex-1">
                 <div className="flex items-center space-x-3">
-                  <span className="text-sm font-medium text-gray-900">Clip {index + 1}</span>
+                  <span className="text-sm font-medium text-gray-900">{timestamp.label || `Clip ${index + 1}`}</span>
                   <span className="text-sm text-gray-600">
                     {timestamp.startTime} → {timestamp.endTime}
                   </span>
                   <span className="text-xs text-gray-500 bg-gray-200 px-2 py-1 rounded">
-                    {calculateDuration(timestamp.startTime, timestamp.endTime)}
+                    {formatDuration(timestamp.duration)}
                   </span>
                 </div>
               </div>
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={() => handleRemoveTimestamp(index)}
+                onClick={() => onRemoveLine(timestamp.line)}
                 className="text-red-600 hover:text-red-700"
               >
                 <Trash2 className="w-4 h-4" />
@@ -11,31 +11,131 @@ interface VideoUploadProps {
   uploadedVideo: VideoType | null;
 }
 
+// How long finalizing may go without progress, and how long it may take at all
+const FINALIZE_STALL_MS = 2 * 60 * 1000;
+const FINALIZE_TIMEOUT_MS = 30 * 60 * 1000;
+
 export default function VideoUpload({ onVideoUpload, uploadedVideo }: VideoUploadProps) {
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [isFinalizing, setIsFinalizing] = useState(false);
   const { toast } = useToast();
 
-  // Optimized chunked upload for 500MB-5GB files
-  const uploadFileInChunks = async (file: File, chunkSize: number): Promise<Response> => {
+  const sha256Hex = async (data: BufferSource): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  };
+
+  // Stable ID for a file so a retried upload of the same file resumes the same server session
+  const getResumableUploadId = async (file: File): Promise<string> => {
+    const fingerprint = `${file.name}:${file.size}:${file.lastModified}`;
+    return (await sha256Hex(new TextEncoder().encode(fingerprint))).substring(0, 32);
+  };
+
+  // Retry a single chunk a few times before giving up on the whole upload
+  const uploadChunkWithRetry = async (formData: FormData, chunkIndex: number, attempts = 3): Promise<Response> => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await fetch('/api/upload-chunk', {
+          method: 'POST',
+          body: formData,
+          signal: AbortSignal.timeout(60000), // 60 second timeout per chunk
+        });
+        if (!response.ok) {
+          // 422 means the chunk arrived corrupted - worth resending like a network failure
+          throw new Error(`Chunk ${chunkIndex} failed: ${response.status} ${response.statusText}`);
+        }
+        return response;
+      } catch (error) {
+        if (attempt >= attempts) throw error;
+        console.warn(`Chunk ${chunkIndex} attempt ${attempt} failed, retrying...`, error);
+        await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+      }
+    }
+  };
+
+  // Poll the background merge + checksum verification until it settles, giving up if it stalls or runs too long
+  const waitForFinalize = async (uploadId: string): Promise<any> => {
+    const deadline = Date.now() + FINALIZE_TIMEOUT_MS;
+    let lastProgressAt = Date.now();
+    let lastState = '';
+    while (true) {
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      const response = await fetch(`/api/upload/${uploadId}/finalize-status`, {
+        signal: AbortSignal.timeout(15000),
+      });
+      if (!response.ok) {
+        throw new Error('Lost track of upload finalization');
+      }
+      const finalizeStatus = await response.json();
+      setUploadProgress(finalizeStatus.progress);
+      if (finalizeStatus.status === 'completed' || finalizeStatus.status === 'error') {
+        return finalizeStatus;
+      }
+
+      // A finalize lost to a server restart or crash never moves again
+      const state = `${finalizeStatus.status}:${finalizeStatus.bytesProcessed}`;
+      if (state !== lastState) {
+        lastState = state;
+        lastProgressAt = Date.now();
+      }
+      if (Date.now() - lastProgressAt > FINALIZE_STALL_MS || Date.now() > deadline) {
+        throw new Error('Finalize failed: Finishing the upload timed out. Please try again.');
+      }
+    }
+  };
+
+  // Optimized chunked upload for 500MB-5GB files, resuming from chunks the server already has.
+  // Every chunk carries its SHA-256 and the finalize call carries a checksum for the whole file.
+  const uploadFileInChunks = async (file: File, chunkSize: number, attemptsLeft = 2): Promise<Response> => {
     const totalChunks = Math.ceil(file.size / chunkSize);
-    let uploadedBytes = 0;
+    const uploadId = await getResumableUploadId(file);
+    
+    // Ask the server which chunks survived a previous attempt
+    let alreadyReceived = new Set<number>();
+    try {
+      const statusResponse = await fetch(`/api/upload/${uploadId}/status`);
+      if (statusResponse.ok) {
+        const uploadStatus = await statusResponse.json();
+        if (uploadStatus.exists && uploadStatus.totalChunks === totalChunks) {
+          alreadyReceived = new Set<number>(uploadStatus.receivedChunks);
+        }
+      }
+    } catch (error) {
+      console.warn('Could not check upload status, starting from scratch:', error);
+    }
+    
+    const chunkBytes = (i: number) => Math.min((i + 1) * chunkSize, file.size) - i * chunkSize;
+    const pendingChunks = Array.from({ length: totalChunks }, (_, i) => i).filter(i => !alreadyReceived.has(i));
+    let uploadedBytes = Array.from(alreadyReceived).reduce((sum, i) => sum + chunkBytes(i), 0);
+    setUploadProgress(Math.round((uploadedBytes / file.size) * 100));
+    
+    if (alreadyReceived.size > 0) {
+      console.log(`Resuming upload ${uploadId}: ${alreadyReceived.size}/${totalChunks} chunks already on server`);
+      toast({
+        title: "Resuming upload",
+        description: `Picking up where you left off (${Math.round((uploadedBytes / file.size) * 100)}% already uploaded)`,
+      });
+    }
     
     // Conservative parallelism to prevent memory issues and hangs
-    const fileSizeGB = file.size / (1024 * 1024 * 1024);
     const batchSize = 3; // Reduced to prevent timeouts and memory pressure
-    const uploadId = Math.random().toString(36).substring(7);
     
-    console.log(`Uploading ${totalChunks} chunks with ${batchSize} parallel connections`);
+    console.log(`Uploading ${pendingChunks.length} chunks with ${batchSize} parallel connections`);
+    
+    // Chunk hashes in file order, used for the whole-file checksum
+    const chunkHashes: string[] = new Array(totalChunks);
     
-    for (let batchStart = 0; batchStart < totalChunks; batchStart += batchSize) {
-      const batchEnd = Math.min(batchStart + batchSize, totalChunks);
-      const batchPromises = [];
+    for (let batchStart = 0; batchStart < pendingChunks.length; batchStart += batchSize) {
+      const batch = pendingChunks.slice(batchStart, batchStart + batchSize);
       
-      for (let i = batchStart; i < batchEnd; i++) {
+      await Promise.all(batch.map(async (i) => {
         const start = i * chunkSize;
         const end = Math.min(start + chunkSize, file.size);
         const chunk = file.slice(start, end);
+        chunkHashes[i] = await sha256Hex(await chunk.arrayBuffer());
         
         const formData = new FormData();
         formData.append('chunk', chunk);
@@ -43,31 +143,29 @@ export default function VideoUpload({ onVideoUpload, uploadedVideo }: VideoUploa
         formData.append('totalChunks', totalChunks.toString());
         formData.append('uploadId', uploadId);
         formData.append('fileName', file.name);
+        formData.append('fileSize', file.size.toString());
+        formData.append('chunkHash', chunkHashes[i]);
         
-        const chunkPromise = fetch('/api/upload-chunk', {
-          method: 'POST',
-          body: formData,
-          signal: AbortSignal.timeout(60000), // 60 second timeout per chunk
-        }).then(response => {
-          if (!response.ok) {
-            console.error(`Chunk ${i} failed:`, response.statusText);
-            throw new Error(`Chunk ${i} failed: ${response.statusText}`);
-          }
-          uploadedBytes += chunk.size;
-          const progress = Math.round((uploadedBytes / file.size) * 100);
-          setUploadProgress(progress);
-          console.log(`Chunk ${i+1}/${totalChunks} uploaded (${progress}%)`);
-          return response;
-        });
-        
-        batchPromises.push(chunkPromise);
-      }
-      
-      await Promise.all(batchPromises);
+        const response = await uploadChunkWithRetry(formData, i);
+        uploadedBytes += chunk.size;
+        const progress = Math.round((uploadedBytes / file.size) * 100);
+        setUploadProgress(progress);
+        console.log(`Chunk ${i+1}/${totalChunks} uploaded (${progress}%)`);
+        return response;
+      }));
     }
     
+    // Chunks skipped on resume still count toward the file checksum, so hash them locally
+    for (const i of Array.from(alreadyReceived)) {
+      const chunk = file.slice(i * chunkSize, Math.min((i + 1) * chunkSize, file.size));
+      chunkHashes[i] = await sha256Hex(await chunk.arrayBuffer());
+    }
+    const fileHash = await sha256Hex(new TextEncoder().encode(chunkHashes.join('\n')));
+    
     // Finalize the upload
-    const response = await fetch('/api/finalize-upload', {
+    setIsFinalizing(true);
+    setUploadProgress(0);
+    const finalizeResponse = await fetch('/api/finalize-upload', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -75,14 +173,31 @@ export default function VideoUpload({ onVideoUpload, uploadedVideo }: VideoUploa
         fileName: file.name,
         totalSize: file.size,
         totalChunks,
+        fileHash,
       }),
     });
     
-    if (!response.ok) {
+    if (!finalizeResponse.ok) {
+      setIsFinalizing(false);
       throw new Error('Failed to finalize upload');
     }
     
-    return response;
+    const finalizeStatus = await waitForFinalize(uploadId);
+    setIsFinalizing(false);
+    
+    if (finalizeStatus.status === 'error') {
+      // The server discarded whatever failed verification - resume to resend it
+      if (finalizeStatus.retryable && attemptsLeft > 0) {
+        console.warn('File checksum mismatch after merge, resending affected chunks...');
+        return uploadFileInChunks(file, chunkSize, attemptsLeft - 1);
+      }
+      throw new Error(`Finalize failed: ${finalizeStatus.message || 'Failed to finalize upload'}`);
+    }
+    
+    return new Response(JSON.stringify(finalizeStatus.video), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
   };
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
@@ -192,6 +307,7 @@ export default function VideoUpload({ onVideoUpload, uploadedVideo }: VideoUploa
       });
     } finally {
       setIsUploading(false);
+      setIsFinalizing(false);
       setUploadProgress(0);
     }
   }, [onVideoUpload, toast]);
@@ -230,6 +346,14 @@ export default function VideoUpload({ onVideoUpload, uploadedVideo }: VideoUploa
             <p className="text-sm text-gray-500">
               Duration: {uploadedVideo.duration || 'Processing...'} • Size: {formatFileSize(uploadedVideo.size)}
             </p>
+            {uploadedVideo.probeStatus === 'completed' && uploadedVideo.width && uploadedVideo.height && (
+              <p className="text-xs text-gray-400">
+                {uploadedVideo.width}x{uploadedVideo.height}
+                {uploadedVideo.frameRate ? ` • ${Number(uploadedVideo.frameRate.toFixed(2))}fps` : ''}
+                {uploadedVideo.videoCodec ? ` • ${uploadedVideo.videoCodec.toUpperCase()}` : ''}
+                {uploadedVideo.audioCodec ? ` • ${uploadedVideo.audioCodec.toUpperCase()} ${uploadedVideo.audioChannels === 1 ? 'mono' : uploadedVideo.audioChannels === 2 ? 'stereo' : `${uploadedVideo.audioChannels}ch`}` : ' • No audio'}
+              </p>
+            )}
           </div>
           <Button
             variant="ghost"
@@ -256,7 +380,7 @@ export default function VideoUpload({ onVideoUpload, uploadedVideo }: VideoUploa
       {isUploading ? (
         <div className="flex flex-col items-center">
           <Upload className="text-4xl text-brand-green mb-4 animate-pulse" />
-          <p className="text-lg font-medium text-gray-700 mb-2">Uploading...</p>
+          <p className="text-lg font-medium text-gray-700 mb-2">{isFinalizing ? 'Finalizing upload...' : 'Uploading...'}</p>
           <div className="w-full max-w-xs mb-2">
             <div className="bg-gray-200 rounded-full h-2">
               <div 
@@ -266,7 +390,11 @@ export default function VideoUpload({ onVideoUpload, uploadedVideo }: VideoUploa
             </div>
             <p className="text-xs text-gray-500 mt-1 text-center">{uploadProgress}%</p>
           </div>
-          <p className="text-sm text-gray-500">Please wait while your video is being uploaded.</p>
+          <p className="text-sm text-gray-500">
+            {isFinalizing
+              ? 'Assembling and verifying your file. Large videos can take a few minutes.'
+              : 'Please wait while your video is being uploaded.'}
+          </p>
         </div>
       ) : (
         <div className="flex flex-col items-center">
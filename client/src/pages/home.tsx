@@ -13,31 +13,38 @@ import ProcessingControls from "@/components/ProcessingControls";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
-import type { Video, Timestamp } from "@shared/schema";
+import type { AspectRatio, Video } from "@shared/schema";
+import type { ParsedTimestamp, TimestampIssue, TimestampMode, TimestampParseResult } from "@shared/timestamps";
 import fdLogo from "@/assets/fd-logo.png";
 
 export default function Home() {
   const [uploadedVideo, setUploadedVideo] = useState<Video | null>(null);
-  const [timestamps, setTimestamps] = useState<Timestamp[]>([]);
+  const [timestamps, setTimestamps] = useState<ParsedTimestamp[]>([]);
   const [timestampText, setTimestampText] = useState("");
-  const [errors, setErrors] = useState<string[]>([]);
-  const [warnings, setWarnings] = useState<string[]>([]);
+  const [timestampMode, setTimestampMode] = useState<TimestampMode>('ranges');
+  const [errors, setErrors] = useState<TimestampIssue[]>([]);
+  const [warnings, setWarnings] = useState<TimestampIssue[]>([]);
   const [generateCutdowns, setGenerateCutdowns] = useState(false);
   const [generateGif, setGenerateGif] = useState(false);
   const [generateThumbnails, setGenerateThumbnails] = useState(false);
   const [generateCanvas, setGenerateCanvas] = useState(false);
-  const [aspectRatios, setAspectRatios] = useState<('16:9' | '9:16')[]>(['16:9']);
+  const [aspectRatios, setAspectRatios] = useState<AspectRatio[]>(['16:9']);
 
   const handleVideoUpload = (video: Video) => {
     setUploadedVideo(video);
   };
 
-  const handleTimestampsParsed = (data: { timestamps: Timestamp[]; errors: string[]; warnings: string[] }) => {
+  const handleTimestampsParsed = (data: TimestampParseResult) => {
     setTimestamps(data.timestamps);
     setErrors(data.errors);
     setWarnings(data.warnings);
   };
 
+  // Removing a clip from the preview removes its line, so the text sent for processing matches the list
+  const handleRemoveTimestampLine = (line: number) => {
+    setTimestampText(timestampText.split('\n').filter((_, index) => index !== line - 1).join('\n'));
+  };
+
   const handleProcessingComplete = () => {
     // Processing completed, user can download
   };
@@ -188,16 +195,18 @@ export default function Home() {
               </CardHeader>
               <CardContent>
                 <TimestampInput
-                  videoId={uploadedVideo?.id}
+                  video={uploadedVideo}
                   timestampText={timestampText}
                   setTimestampText={setTimestampText}
+                  timestampMode={timestampMode}
+                  setTimestampMode={setTimestampMode}
                   onTimestampsParsed={handleTimestampsParsed}
                 />
                 {(timestamps.length > 0 || errors.length > 0 || warnings.length > 0) && (
                   <div className="mt-6">
                     <TimestampPreview
                       timestamps={timestamps}
-                      setTimestamps={setTimestamps}
+                      onRemoveLine={handleRemoveTimestampLine}
                       errors={errors}
                       warnings={warnings}
                     />
@@ -219,6 +228,7 @@ export default function Home() {
               <ProcessingControls
                 video={uploadedVideo}
                 timestampText={timestampText}
+                timestampMode={timestampMode}
                 onProcessingComplete={handleProcessingComplete}
                 generateCutdowns={generateCutdowns}
                 generateGif={generateGif}
@@ -56,7 +56,7 @@ export default function Terms() {
             </p>
             <ul>
               <li>Timestamp-based clip generation with fade effects</li>
-              <li>Dual aspect ratio formatting (16:9 and 9:16)</li>
+              <li>Multiple aspect ratio formats (16:9, 9:16, 1:1, 4:5, 4:3 and 21:9)</li>
               <li>Automatic letterbox detection and removal</li>
               <li>Motion tracking for vertical content</li>
               <li>Spotify Canvas loop generation</li>
@@ -93,7 +93,7 @@ export default function Terms() {
             </p>
             <ul>
               <li>Video processing and export generation</li>
-              <li>Premium features like Canvas loops and dual aspect ratios</li>
+              <li>Premium features like Canvas loops and multiple aspect ratios</li>
               <li>Large file processing (files over certain size thresholds)</li>
             </ul>
             <p>
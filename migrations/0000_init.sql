@@ -0,0 +1,41 @@
+CREATE TABLE "clips" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"video_id" integer,
+	"start_time" text NOT NULL,
+	"end_time" text NOT NULL,
+	"filename" text NOT NULL,
+	"path" text,
+	"processed" boolean DEFAULT false
+);
+--> statement-breakpoint
+CREATE TABLE "jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"video_id" integer NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"options" jsonb NOT NULL,
+	"progress" integer DEFAULT 0 NOT NULL,
+	"current_clip" integer DEFAULT 0 NOT NULL,
+	"total_clips" integer DEFAULT 0 NOT NULL,
+	"total_gifs" integer DEFAULT 0 NOT NULL,
+	"total_thumbnails" integer DEFAULT 0 NOT NULL,
+	"total_canvas" integer DEFAULT 0 NOT NULL,
+	"total_outputs" integer DEFAULT 0 NOT NULL,
+	"errors" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"download_path" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "videos" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"filename" text NOT NULL,
+	"original_name" text NOT NULL,
+	"path" text NOT NULL,
+	"size" bigint NOT NULL,
+	"duration" text,
+	"processed" boolean DEFAULT false
+);
+--> statement-breakpoint
+ALTER TABLE "clips" ADD CONSTRAINT "clips_video_id_videos_id_fk" FOREIGN KEY ("video_id") REFERENCES "public"."videos"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_video_id_videos_id_fk" FOREIGN KEY ("video_id") REFERENCES "public"."videos"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
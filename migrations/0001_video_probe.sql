@@ -0,0 +1,12 @@
+ALTER TABLE "videos" ADD COLUMN "probe_status" text DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN "probe_error" text;--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN "duration_seconds" double precision;--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN "width" integer;--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN "height" integer;--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN "frame_rate" double precision;--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN "video_codec" text;--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN "rotation" integer;--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN "audio_codec" text;--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN "audio_channels" integer;--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN "audio_sample_rate" integer;--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN "bitrate" bigint;
\ No newline at end of file
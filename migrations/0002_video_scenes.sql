@@ -0,0 +1,2 @@
+ALTER TABLE "videos" ADD COLUMN "scene_status" text DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN "shot_boundaries" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "jobs" ADD COLUMN "worker_id" text;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "heartbeat_at" timestamp;
\ No newline at end of file
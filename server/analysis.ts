@@ -0,0 +1,480 @@
+/*
+ * © 2025 Full Digital LLC. All Rights Reserved.
+ * CUTMV - Music Video Cut-Down Tool
+ * Proprietary software - unauthorized use prohibited
+ */
+
+// Audio analysis for smart auto-cuts: decodes the soundtrack with FFmpeg and runs the DSP in-process
+// (loudness, onsets, tempo and beat grid, repeated high-energy sections) to propose bar-aligned clips.
+
+import path from "path";
+import ffmpeg from "fluent-ffmpeg";
+import { secondsToTimestamp } from "@shared/timestamps";
+import type { Timestamp } from "@shared/schema";
+
+// Mono 11.025kHz keeps everything up to the top of the vocal range at a quarter of CD rate
+const ANALYSIS_SAMPLE_RATE = 11025;
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 512;
+const HOP_SECONDS = HOP_SIZE / ANALYSIS_SAMPLE_RATE;
+
+// An onset shows up once it reaches the middle of the analysis window
+function frameToSeconds(frame: number): number {
+  return (frame * HOP_SIZE + FRAME_SIZE / 2) / ANALYSIS_SAMPLE_RATE;
+}
+
+const MIN_BPM = 60;
+const MAX_BPM = 180;
+const BEATS_PER_BAR = 4;
+// Sections are compared in 4-bar phrases, the shortest unit a chorus or drop usually spans
+const BARS_PER_PHRASE = 4;
+
+export type SectionKind = 'chorus' | 'drop' | 'high-energy' | 'verse' | 'quiet';
+
+export interface AudioSection {
+  startBar: number;
+  endBar: number;
+  kind: SectionKind;
+  // 0-1 loudness relative to the rest of the track
+  energy: number;
+  // 0-1 how closely the harmony repeats elsewhere in the track
+  repetition: number;
+  score: number;
+}
+
+export interface AudioAnalysis {
+  durationSeconds: number;
+  tempo: number;
+  beats: number[];
+  // Downbeat times, plus the end of the last complete bar
+  bars: number[];
+  sections: AudioSection[];
+}
+
+export interface CutSuggestion extends Timestamp {
+  reason: string;
+  score: number;
+}
+
+export interface AutoCutPlan {
+  targetClips: number;
+  minClipDuration: number;
+  maxClipDuration: number;
+}
+
+// Clip count and length scale with the video: short videos get fewer, shorter clips
+export function planAutoCuts(totalSeconds: number): AutoCutPlan {
+  if (totalSeconds < 30) {
+    const targetClips = Math.max(2, Math.floor(totalSeconds / 8));
+    return { targetClips, minClipDuration: 3, maxClipDuration: Math.min(5, totalSeconds / targetClips - 1) };
+  }
+  if (totalSeconds < 60) {
+    const targetClips = Math.max(3, Math.floor(totalSeconds / 15));
+    return { targetClips, minClipDuration: 5, maxClipDuration: Math.min(10, totalSeconds / targetClips - 1) };
+  }
+  if (totalSeconds < 120) {
+    const targetClips = Math.max(4, Math.floor(totalSeconds / 20));
+    return { targetClips, minClipDuration: 8, maxClipDuration: Math.min(15, totalSeconds / targetClips - 1) };
+  }
+  return { targetClips: 5, minClipDuration: 15, maxClipDuration: 30 };
+}
+
+// Decode the first audio stream to mono 32-bit float PCM
+export function extractAudioSamples(inputPath: string): Promise<Float32Array> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const command = ffmpeg(inputPath)
+      .noVideo()
+      .audioChannels(1)
+      .audioFrequency(ANALYSIS_SAMPLE_RATE)
+      .format('f32le')
+      .on('error', reject);
+
+    const stream = command.pipe();
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    stream.on('end', () => {
+      const buffer = Buffer.concat(chunks);
+      // Copy out so the samples start on a 4-byte boundary
+      const usable = buffer.length - (buffer.length % 4);
+      resolve(new Float32Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + usable)));
+    });
+  });
+}
+
+// In-place iterative radix-2 FFT
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+}
+
+interface FrameFeatures {
+  rms: Float64Array;
+  // Spectral flux over the whole spectrum and below ~150Hz, where kicks mark the downbeat
+  onset: Float64Array;
+  lowOnset: Float64Array;
+  chroma: Float64Array[];
+}
+
+function computeFrameFeatures(samples: Float32Array): FrameFeatures {
+  const frameCount = Math.max(0, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1);
+  const bins = FRAME_SIZE / 2;
+  const window = Float64Array.from({ length: FRAME_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1)));
+  const lowBinLimit = Math.round((150 * FRAME_SIZE) / ANALYSIS_SAMPLE_RATE);
+
+  // Pitch class of every bin between A1 and ~C7; the rest carries no usable harmony
+  const pitchClass = new Int8Array(bins).fill(-1);
+  for (let bin = 1; bin < bins; bin++) {
+    const frequency = (bin * ANALYSIS_SAMPLE_RATE) / FRAME_SIZE;
+    if (frequency >= 55 && frequency <= 2100) {
+      pitchClass[bin] = ((Math.round(12 * Math.log2(frequency / 440)) + 9) % 12 + 12) % 12;
+    }
+  }
+
+  const rms = new Float64Array(frameCount);
+  const onset = new Float64Array(frameCount);
+  const lowOnset = new Float64Array(frameCount);
+  const chroma: Float64Array[] = [];
+
+  const re = new Float64Array(FRAME_SIZE);
+  const im = new Float64Array(FRAME_SIZE);
+  let previous = new Float64Array(bins);
+  let current = new Float64Array(bins);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const offset = frame * HOP_SIZE;
+    let energy = 0;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const sample = samples[offset + i];
+      energy += sample * sample;
+      re[i] = sample * window[i];
+      im[i] = 0;
+    }
+    rms[frame] = Math.sqrt(energy / FRAME_SIZE);
+
+    fft(re, im);
+
+    const frameChroma = new Float64Array(12);
+    let flux = 0;
+    let lowFlux = 0;
+    for (let bin = 1; bin < bins; bin++) {
+      const power = re[bin] * re[bin] + im[bin] * im[bin];
+      // Log compression keeps quiet passages from vanishing next to loud ones
+      current[bin] = Math.log1p(100 * Math.sqrt(power));
+      const rise = Math.max(0, current[bin] - previous[bin]);
+      flux += rise;
+      if (bin <= lowBinLimit) lowFlux += rise;
+      if (pitchClass[bin] >= 0) frameChroma[pitchClass[bin]] += power;
+    }
+    onset[frame] = frame > 0 ? flux : 0;
+    lowOnset[frame] = frame > 0 ? lowFlux : 0;
+    chroma.push(frameChroma);
+
+    [previous, current] = [current, previous];
+  }
+
+  return { rms, onset: normalizeOnsets(onset), lowOnset: normalizeOnsets(lowOnset), chroma };
+}
+
+// Subtract a ~0.5s moving average and keep the rises, so sustained loudness doesn't read as onsets
+function normalizeOnsets(values: Float64Array): Float64Array {
+  const radius = Math.round(0.25 / HOP_SECONDS);
+  const result = new Float64Array(values.length);
+  let sum = 0;
+  let count = 0;
+  let peak = 0;
+
+  for (let i = 0; i < values.length + radius; i++) {
+    if (i < values.length) {
+      sum += values[i];
+      count++;
+    }
+    if (i - 2 * radius - 1 >= 0) {
+      sum -= values[i - 2 * radius - 1];
+      count--;
+    }
+    const center = i - radius;
+    if (center >= 0 && center < values.length) {
+      result[center] = Math.max(0, values[center] - sum / count);
+      peak = Math.max(peak, result[center]);
+    }
+  }
+
+  if (peak > 0) {
+    for (let i = 0; i < result.length; i++) result[i] /= peak;
+  }
+  return result;
+}
+
+// Tempo from the autocorrelation of the onset envelope, weighted toward 120 BPM to avoid octave errors
+function estimateBeatPeriod(onset: Float64Array): number {
+  const minLag = Math.floor(60 / MAX_BPM / HOP_SECONDS);
+  const maxLag = Math.ceil(60 / MIN_BPM / HOP_SECONDS);
+  const correlation = new Float64Array(maxLag + 2);
+
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = lag; i < onset.length; i++) sum += onset[i] * onset[i - lag];
+    correlation[lag] = sum / Math.max(1, onset.length - lag);
+  }
+
+  let bestLag = minLag;
+  let bestScore = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = 60 / (lag * HOP_SECONDS);
+    const weight = Math.exp(-0.5 * Math.log2(bpm / 120) ** 2);
+    if (correlation[lag] * weight > bestScore) {
+      bestScore = correlation[lag] * weight;
+      bestLag = lag;
+    }
+  }
+
+  // Parabolic interpolation gets the period between whole frames
+  const [left, center, right] = [correlation[bestLag - 1], correlation[bestLag], correlation[bestLag + 1]];
+  const denominator = left - 2 * center + right;
+  const shift = denominator !== 0 ? (0.5 * (left - right)) / denominator : 0;
+  return bestLag + Math.max(-0.5, Math.min(0.5, shift));
+}
+
+// Onset strength between frames, read off the line joining its neighbours
+function onsetAt(onset: Float64Array, position: number): number {
+  const index = Math.floor(position);
+  if (index < 0 || index + 1 >= onset.length) return 0;
+  const fraction = position - index;
+  return onset[index] * (1 - fraction) + onset[index + 1] * fraction;
+}
+
+// Fit a grid to the whole track - the autocorrelation period is only good to a frame, which drifts a beat in a minute -
+// then let each beat follow the nearest strong onset to absorb tempo drift
+function trackBeats(onset: Float64Array, roughPeriod: number): { period: number; beats: number[] } {
+  let period = roughPeriod;
+  let bestPhase = 0;
+  let bestScore = -Infinity;
+  for (let candidate = roughPeriod * 0.97; candidate <= roughPeriod * 1.03; candidate += 0.01) {
+    for (let phase = 0; phase < candidate; phase += 0.5) {
+      let score = 0;
+      for (let position = phase; position < onset.length; position += candidate) score += onsetAt(onset, position);
+      if (score > bestScore) {
+        bestScore = score;
+        bestPhase = phase;
+        period = candidate;
+      }
+    }
+  }
+
+  const tolerance = Math.max(1, Math.round(period * 0.1));
+  const beats: number[] = [];
+  for (let predicted = bestPhase; Math.round(predicted) < onset.length; ) {
+    let best = Math.round(predicted);
+    for (let frame = best - tolerance; frame <= best + tolerance; frame++) {
+      if (frame >= 0 && frame < onset.length && onset[frame] > onset[best]) best = frame;
+    }
+    beats.push(best);
+    // Follow the onset only part way, so one stray hit doesn't pull the rest of the grid
+    predicted = (predicted + best) / 2 + period;
+  }
+  return { period, beats };
+}
+
+function average(values: ArrayLike<number>, from: number, to: number): number {
+  let sum = 0;
+  const end = Math.min(to, values.length);
+  for (let i = Math.max(0, from); i < end; i++) sum += values[i];
+  return end > from ? sum / (end - from) : 0;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function scaleToUnit(values: number[]): number[] {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return values.map(value => (max > min ? (value - min) / (max - min) : 0.5));
+}
+
+export function analyzeSamples(samples: Float32Array): AudioAnalysis {
+  const durationSeconds = samples.length / ANALYSIS_SAMPLE_RATE;
+  const features = computeFrameFeatures(samples);
+  const { period, beats: beatFrames } = trackBeats(features.onset, estimateBeatPeriod(features.onset));
+
+  // Downbeats are the beat position within the bar with the strongest low-end hits
+  let downbeatOffset = 0;
+  let bestLowOnset = -Infinity;
+  for (let offset = 0; offset < BEATS_PER_BAR; offset++) {
+    const strength = average(beatFrames.filter((_, i) => i % BEATS_PER_BAR === offset).map(frame => features.lowOnset[frame]), 0, Infinity);
+    if (strength > bestLowOnset) {
+      bestLowOnset = strength;
+      downbeatOffset = offset;
+    }
+  }
+  const barFrames = beatFrames.filter((_, i) => i >= downbeatOffset && (i - downbeatOffset) % BEATS_PER_BAR === 0);
+
+  // Per-phrase loudness, onset density and harmony (bar-by-bar chroma so the order of chords counts)
+  const phrases: Array<{ startBar: number; endBar: number; loudness: number; density: number; chroma: number[] }> = [];
+  for (let startBar = 0; startBar + BARS_PER_PHRASE < barFrames.length; startBar += BARS_PER_PHRASE) {
+    const endBar = startBar + BARS_PER_PHRASE;
+    const from = barFrames[startBar];
+    const to = barFrames[endBar];
+    const chroma: number[] = [];
+    for (let bar = startBar; bar < endBar; bar++) {
+      const barChroma = new Array(12).fill(0);
+      for (let frame = barFrames[bar]; frame < barFrames[bar + 1]; frame++) {
+        features.chroma[frame].forEach((value, pitch) => (barChroma[pitch] += value));
+      }
+      const total = barChroma.reduce((sum, value) => sum + value, 0) || 1;
+      chroma.push(...barChroma.map(value => value / total));
+    }
+    phrases.push({
+      startBar,
+      endBar,
+      loudness: 20 * Math.log10(average(features.rms, from, to) + 1e-9),
+      density: average(features.onset, from, to),
+      chroma,
+    });
+  }
+
+  // A chorus comes back: compare each phrase with every phrase that isn't its neighbour
+  const repetition = scaleToUnit(phrases.map((phrase, i) =>
+    Math.max(0, ...phrases.filter((_, j) => Math.abs(i - j) > 1).map(other => cosineSimilarity(phrase.chroma, other.chroma)))
+  ));
+  const energy = scaleToUnit(phrases.map(phrase => phrase.loudness));
+  const density = scaleToUnit(phrases.map(phrase => phrase.density));
+
+  const sections: AudioSection[] = phrases.map((phrase, i) => {
+    const lift = i > 0 ? energy[i] - energy[i - 1] : 0;
+    const kind: SectionKind =
+      energy[i] >= 0.6 && repetition[i] >= 0.6 ? 'chorus'
+      : lift >= 0.35 ? 'drop'
+      : energy[i] >= 0.6 ? 'high-energy'
+      : energy[i] >= 0.25 ? 'verse'
+      : 'quiet';
+    const score = 0.55 * energy[i] + 0.3 * repetition[i] + 0.15 * density[i] + (kind === 'drop' ? 0.1 : 0);
+    return { startBar: phrase.startBar, endBar: phrase.endBar, kind, energy: energy[i], repetition: repetition[i], score };
+  });
+
+  return {
+    durationSeconds,
+    tempo: 60 / (period * HOP_SECONDS),
+    beats: beatFrames.map(frameToSeconds),
+    bars: barFrames.map(frameToSeconds),
+    sections,
+  };
+}
+
+// Analysis is deterministic per file, so repeated auto-generates reuse it. Entries are dropped with their
+// file, and the least recently used go first once the cache is full.
+const analysisCache = new Map<string, Promise<AudioAnalysis>>();
+const ANALYSIS_CACHE_SIZE = 20;
+
+export function analyzeAudio(inputPath: string): Promise<AudioAnalysis> {
+  const key = path.normalize(inputPath);
+  let analysis = analysisCache.get(key);
+  if (analysis) {
+    // Map keeps insertion order; re-inserting marks the entry as most recently used
+    analysisCache.delete(key);
+  } else {
+    analysis = extractAudioSamples(inputPath).then(analyzeSamples);
+    analysis.catch(() => {
+      if (analysisCache.get(key) === analysis) analysisCache.delete(key);
+    });
+  }
+  analysisCache.set(key, analysis);
+
+  for (const oldest of Array.from(analysisCache.keys()).slice(0, -ANALYSIS_CACHE_SIZE)) {
+    analysisCache.delete(oldest);
+  }
+  return analysis;
+}
+
+// Forget a file's analysis once the file is deleted
+export function forgetAudioAnalysis(inputPath: string): void {
+  analysisCache.delete(path.normalize(inputPath));
+}
+
+const SECTION_REASONS: Record<SectionKind, string> = {
+  chorus: 'Chorus - loud section that repeats',
+  drop: 'Drop - sharp jump in energy',
+  'high-energy': 'High-energy section',
+  verse: 'Verse',
+  quiet: 'Quiet passage',
+};
+
+// Propose clips that start and end on downbeats, favouring choruses and drops and starting on phrase boundaries
+export function suggestCuts(analysis: AudioAnalysis, plan: AutoCutPlan): CutSuggestion[] {
+  const { bars, sections } = analysis;
+  if (bars.length < 2 || sections.length === 0) {
+    throw new Error('Could not find a beat grid in the audio');
+  }
+
+  const barLength = (bars[bars.length - 1] - bars[0]) / (bars.length - 1);
+  // Prefer 16/8/4/2 bar clips, the lengths edits naturally fall on
+  const lengthInBars =
+    [16, 8, 4, 2, 1].find(count => count * barLength <= plan.maxClipDuration && count * barLength >= plan.minClipDuration)
+    ?? Math.max(1, Math.round(plan.maxClipDuration / barLength));
+
+  const sectionAt = (bar: number) => sections.find(section => bar >= section.startBar && bar < section.endBar);
+
+  const candidates: Array<{ startBar: number; endBar: number; score: number; section: AudioSection }> = [];
+  for (let startBar = 0; startBar + lengthInBars < bars.length; startBar++) {
+    // Skip the opening second, which is often black or a fade-in
+    if (bars[startBar] < 1) continue;
+
+    const covered = Array.from({ length: lengthInBars }, (_, i) => sectionAt(startBar + i)).filter((s): s is AudioSection => !!s);
+    if (covered.length === 0) continue;
+
+    const score = covered.reduce((sum, section) => sum + section.score, 0) / covered.length
+      + (startBar % BARS_PER_PHRASE === 0 ? 0.05 : 0);
+    const section = covered.reduce((best, section) => (section.score > best.score ? section : best));
+    candidates.push({ startBar, endBar: startBar + lengthInBars, score, section });
+  }
+
+  const picked: typeof candidates = [];
+  for (const candidate of candidates.sort((a, b) => b.score - a.score)) {
+    if (picked.length >= plan.targetClips) break;
+    if (picked.some(other => candidate.startBar < other.endBar && candidate.endBar > other.startBar)) continue;
+    picked.push(candidate);
+  }
+
+  const tempo = Math.round(analysis.tempo);
+  return picked
+    .sort((a, b) => a.startBar - b.startBar)
+    .map(candidate => ({
+      startTime: secondsToTimestamp(bars[candidate.startBar]),
+      endTime: secondsToTimestamp(bars[candidate.endBar]),
+      reason: `${SECTION_REASONS[candidate.section.kind]}, bars ${candidate.startBar + 1}-${candidate.endBar} at ${tempo} BPM`,
+      score: Math.round(candidate.score * 100) / 100,
+    }));
+}
@@ -0,0 +1,93 @@
+/*
+ * © 2025 Full Digital LLC. All Rights Reserved.
+ * CUTMV - Music Video Cut-Down Tool
+ * Proprietary software - unauthorized use prohibited
+ */
+
+// Spotify Canvas spec checks: every rendered Canvas is probed before packaging and anything Spotify for Artists
+// would reject (wrong shape, length, codec, audio, size) is reported against the file.
+
+import path from "path";
+import ffmpeg from "fluent-ffmpeg";
+
+export const CANVAS_SPEC = {
+  aspectRatio: 9 / 16,
+  minHeight: 720,
+  minSeconds: 3,
+  maxSeconds: 8,
+  codec: 'h264',
+  // The upload limit we hold Canvas files to
+  maxBytes: 8 * 1024 * 1024,
+};
+
+// Containers round durations to the last frame; this keeps an exact 8s loop from failing at 8.02s
+const DURATION_TOLERANCE_SECONDS = 0.05;
+
+export interface CanvasCheck {
+  file: string;
+  width: number | null;
+  height: number | null;
+  durationSeconds: number | null;
+  codec: string | null;
+  hasAudio: boolean;
+  bytes: number;
+  violations: string[];
+}
+
+// Spec violations for one probed Canvas; empty when it can be uploaded as-is
+export function canvasViolations(check: Omit<CanvasCheck, 'file' | 'violations'>): string[] {
+  const violations: string[] = [];
+  const { width, height, durationSeconds, codec, hasAudio, bytes } = check;
+
+  if (!width || !height) {
+    violations.push('no video stream');
+  } else {
+    if (Math.abs(width / height - CANVAS_SPEC.aspectRatio) > 0.01) {
+      violations.push(`aspect ratio is ${width}:${height}, not 9:16`);
+    }
+    if (height < CANVAS_SPEC.minHeight) {
+      violations.push(`height is ${height}px, under ${CANVAS_SPEC.minHeight}px`);
+    }
+  }
+  if (durationSeconds === null) {
+    violations.push('duration unknown');
+  } else if (durationSeconds < CANVAS_SPEC.minSeconds - DURATION_TOLERANCE_SECONDS || durationSeconds > CANVAS_SPEC.maxSeconds + DURATION_TOLERANCE_SECONDS) {
+    violations.push(`duration is ${durationSeconds.toFixed(2)}s, outside ${CANVAS_SPEC.minSeconds}-${CANVAS_SPEC.maxSeconds}s`);
+  }
+  if (codec !== CANVAS_SPEC.codec) {
+    violations.push(`video codec is ${codec ?? 'unknown'}, not H.264`);
+  }
+  if (hasAudio) {
+    violations.push('has an audio track');
+  }
+  if (bytes > CANVAS_SPEC.maxBytes) {
+    violations.push(`file is ${(bytes / 1024 / 1024).toFixed(1)}MB, over ${CANVAS_SPEC.maxBytes / 1024 / 1024}MB`);
+  }
+  return violations;
+}
+
+// Probe a rendered Canvas and check it against the spec
+export function validateCanvasExport(filePath: string): Promise<CanvasCheck> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err: any, metadata: any) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+
+      const streams: any[] = metadata?.streams ?? [];
+      const videoStream = streams.find(s => s.codec_type === 'video');
+      const duration = Number(metadata?.format?.duration ?? videoStream?.duration);
+      const measured = {
+        width: videoStream?.width ?? null,
+        height: videoStream?.height ?? null,
+        durationSeconds: Number.isFinite(duration) ? duration : null,
+        codec: videoStream?.codec_name ?? null,
+        hasAudio: streams.some(s => s.codec_type === 'audio'),
+        bytes: Number(metadata?.format?.size) || 0,
+      };
+
+      resolve({ file: path.basename(filePath), ...measured, violations: canvasViolations(measured) });
+    });
+  });
+}
@@ -0,0 +1,257 @@
+/*
+ * © 2025 Full Digital LLC. All Rights Reserved.
+ * CUTMV - Music Video Cut-Down Tool
+ * Proprietary software - unauthorized use prohibited
+ */
+
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { buildCutListManifest, buildEdl, buildFcpxml, decodeCutListFile, detectCutListFormat, importCutList, type CutListClip, type CutListExportOptions } from "./cutlists";
+
+const ranges = (result: ReturnType<typeof importCutList>) =>
+  result.timestamps.map(({ startTime, endTime, label }) => ({ startTime, endTime, label }));
+
+describe("cut list import", () => {
+  test("CMX3600 keeps the video event of a select cut in with sound and reports unreadable events", () => {
+    const edl = [
+      "TITLE: Selects",
+      "FCM: NON-DROP FRAME",
+      "",
+      "001  AX       V     C        00:00:10:12 00:00:15:00 01:00:00:00 01:00:04:13",
+      "* FROM CLIP NAME: Chorus",
+      "001  AX       A     C        00:00:10:12 00:00:15:00 01:00:00:00 01:00:04:13",
+      "002  AX       V     C        00:00:20:00 00:00:2X:00 01:00:04:13 01:00:09:13",
+    ].join("\r\n");
+
+    const result = importCutList(edl, "selects.edl", { frameRate: 25, videoDurationSeconds: 60 });
+    assert.equal(result.format, "cmx3600");
+    assert.deepEqual(ranges(result), [{ startTime: "00:00:10.480", endTime: "00:00:15", label: "Chorus" }]);
+    assert.deepEqual(result.errors, [{ line: 7, message: "Unreadable timecode in event 002" }]);
+  });
+
+  test("frames are converted at the video's rate and rounded to the millisecond", () => {
+    const edl = "001  AX       V     C        00:00:10:13 00:00:12:23 00:00:00:00 00:00:02:10\n";
+    const result = importCutList(edl, "selects.edl", { frameRate: 24000 / 1001, videoDurationSeconds: 60 });
+    assert.deepEqual(ranges(result), [{ startTime: "00:00:10.552", endTime: "00:00:12.971", label: undefined }]);
+  });
+
+  test("Resolve marker EDLs read the record side, drop the hour offset and treat one-frame markers as points", () => {
+    const edl = [
+      "TITLE: Timeline 1",
+      "FCM: NON-DROP FRAME",
+      "",
+      "001  001      V     C        01:00:05:00 01:00:05:01 01:00:05:00 01:00:05:01  ",
+      " |C:ResolveColorBlue |M:Hook |D:1",
+      "002  001      V     C        01:00:12:00 01:00:12:01 01:00:12:00 01:00:12:01  ",
+      " |C:ResolveColorBlue |M:Drop |D:50",
+    ].join("\n");
+
+    const result = importCutList(edl, "markers.edl", { frameRate: 25, videoDurationSeconds: 30 });
+    assert.equal(result.format, "resolve-markers");
+    assert.deepEqual(ranges(result), [
+      { startTime: "00:00:05", endTime: "00:00:12", label: "Hook" },
+      { startTime: "00:00:12", endTime: "00:00:14", label: "Drop" },
+    ]);
+    assert.deepEqual(result.errors, []);
+    assert.ok(result.warnings.some(warning => warning.message.startsWith("Timecodes start at 01:00:00")));
+  });
+
+  test("FCPXML markers and keyword ranges are read relative to the asset start", () => {
+    const fcpxml = [
+      '<?xml version="1.0"?>',
+      '<fcpxml version="1.8">',
+      '  <resources>',
+      '    <format id="r1" frameDuration="1001/30000s"/>',
+      '    <asset id="r2" name="Master" start="3600s" duration="120s"/>',
+      '  </resources>',
+      '  <library><event><project><sequence><spine>',
+      '    <asset-clip ref="r2" name="Master" offset="0s" start="3600s" duration="120s">',
+      '      <marker start="3610010/1000s" duration="1001/30000s" value="Hook"/>',
+      '      <keyword start="3620s" duration="5s" value="Chorus &amp; Outro"/>',
+      '    </asset-clip>',
+      '  </spine></sequence></project></event></library>',
+      '</fcpxml>',
+    ].join("\n");
+
+    const result = importCutList(fcpxml, "project.fcpxml", { frameRate: 30000 / 1001, videoDurationSeconds: 120 });
+    assert.equal(result.format, "fcpxml");
+    assert.deepEqual(ranges(result), [
+      { startTime: "00:00:10.010", endTime: "00:00:20", label: "Hook" },
+      { startTime: "00:00:20", endTime: "00:00:25", label: "Chorus & Outro" },
+    ]);
+    assert.deepEqual(result.timestamps.map(timestamp => timestamp.line), [9, 10]);
+  });
+
+  test("Premiere marker CSVs are decoded from UTF-16LE and read with drop-frame timecode", () => {
+    const csv = "Marker Name\tDescription\tIn\tOut\tDuration\tMarker Type\r\n"
+      + "Verse\t\t00;00;05;00\t00;00;10;00\t00;00;05;00\tComment\r\n"
+      + "Hook\t\t00;00;20;15\t00;00;20;15\t00;00;00;00\tComment\r\n";
+    const content = decodeCutListFile(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(csv, "utf16le")]));
+
+    assert.equal(detectCutListFormat("Sequence 01.csv", content), "premiere-markers");
+    const result = importCutList(content, "Sequence 01.csv", { frameRate: 30000 / 1001, videoDurationSeconds: 40 });
+    assert.deepEqual(ranges(result), [
+      { startTime: "00:00:05.005", endTime: "00:00:10.010", label: "Verse" },
+      // In == Out is a point marker, so it runs to the end of the video
+      { startTime: "00:00:20.521", endTime: "00:00:40", label: "Hook" },
+    ]);
+    assert.deepEqual(result.errors, []);
+  });
+
+  test("UTF-8 files lose their byte order mark", () => {
+    assert.equal(decodeCutListFile(Buffer.from("\uFEFFstart,end\n", "utf8")), "start,end\n");
+  });
+
+  test("generic CSVs accept quoted cells and report rows they can't read by line", () => {
+    const csv = 'start,end,name\n0:05,0:10,Intro\nabc,0:12,Bad\n0:20,0:25,"Tail, ""end"""\n';
+    const result = importCutList(csv, "cuts.csv", { videoDurationSeconds: 30 });
+
+    assert.equal(result.format, "csv");
+    assert.deepEqual(ranges(result), [
+      { startTime: "00:00:05", endTime: "00:00:10", label: "Intro" },
+      { startTime: "00:00:20", endTime: "00:00:25", label: 'Tail, "end"' },
+    ]);
+    assert.deepEqual(result.errors, [{ line: 3, message: 'Unreadable start time "abc"' }]);
+  });
+
+  test("files with nothing to import say so", () => {
+    assert.deepEqual(importCutList("", "empty.csv").errors, [{ line: 1, message: "No clips or markers found in this file" }]);
+
+    const result = importCutList('<fcpxml version="1.8"><marker start="5s" value="Loose"/><asset-clip name="a" start="0s"/></fcpxml>', "broken.fcpxml");
+    assert.deepEqual(result.timestamps, []);
+    assert.deepEqual(result.warnings.map(warning => warning.message), ["Skipped marker outside of a clip", "Skipped asset-clip without a duration"]);
+    assert.deepEqual(result.errors.map(error => error.message), ["No clips or markers found in this file"]);
+  });
+
+  test("a point marker with nothing after it and no video length is an error", () => {
+    const result = importCutList("start,end\n0:05,\n", "cuts.csv");
+    assert.deepEqual(result.timestamps, []);
+    assert.deepEqual(result.errors, [{ line: 2, message: "Marker has no length and nothing follows it to end on" }]);
+  });
+
+  test("unknown extensions fall back to sniffing the content", () => {
+    assert.equal(detectCutListFormat("selects", "TITLE: Cut\n001  AX V C 00:00:00:00 00:00:01:00 01:00:00:00 01:00:01:00"), "cmx3600");
+    assert.equal(detectCutListFormat("export", '<?xml version="1.0"?>\n<fcpxml version="1.9">'), "fcpxml");
+    assert.equal(detectCutListFormat("notes.pdf", "hello"), null);
+  });
+});
+
+describe("cut list round trip", () => {
+  const clips: CutListClip[] = [
+    { timestamp: { startTime: "00:00:10.010", endTime: "00:00:15.015", label: "Verse" }, aspectRatio: "16:9", file: "clips (16x9)/Song-clip-01 (16x9).mp4" },
+    { timestamp: { startTime: "00:01:00.060", endTime: "00:01:30.090", label: "Hook & Drop" }, aspectRatio: "9:16", file: "clips (9x16)/Song-clip-02 (9x16).mp4" },
+  ];
+  const options: CutListExportOptions = {
+    title: "Song",
+    video: { originalName: "Song Master.mov", durationSeconds: 200, frameRate: 30000 / 1001, width: 1920, height: 1080, audioCodec: "aac" },
+    videoFade: true,
+    audioFade: false,
+    fadeDuration: 0.5,
+  };
+  const expected = clips.map(({ timestamp }) => timestamp);
+
+  test("an exported EDL imports back to the same source ranges", () => {
+    const result = importCutList(buildEdl(clips, options), "Song.edl", { frameRate: options.video.frameRate!, videoDurationSeconds: 200 });
+    assert.equal(result.format, "cmx3600");
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(ranges(result), expected);
+  });
+
+  test("a time between frames comes back on the nearest frame", () => {
+    const offFrame: CutListClip = { ...clips[0], timestamp: { ...clips[0].timestamp, startTime: "00:01:00", endTime: "00:01:05" } };
+    const result = importCutList(buildEdl([offFrame], options), "Song.edl", { frameRate: options.video.frameRate!, videoDurationSeconds: 200 });
+    assert.deepEqual(ranges(result), [{ startTime: "00:00:59.993", endTime: "00:01:04.998", label: "Verse" }]);
+  });
+
+  test("an exported FCPXML imports back to the same source ranges", () => {
+    const result = importCutList(buildFcpxml(clips, options), "Song.fcpxml", { frameRate: options.video.frameRate!, videoDurationSeconds: 200 });
+    assert.equal(result.format, "fcpxml");
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(ranges(result), expected);
+  });
+});
+
+describe("cut list export", () => {
+  const clips: CutListClip[] = [
+    { timestamp: { startTime: "00:00:10", endTime: "00:00:12.5", label: "Verse" }, aspectRatio: "16:9", file: "clips (16x9)/a.mp4" },
+    { timestamp: { startTime: "00:00:30", endTime: "00:00:31" }, aspectRatio: "9:16", file: "clips (9x16)/b <1>.mp4" },
+  ];
+  const options: CutListExportOptions = {
+    title: "Tom & Jerry",
+    video: { originalName: "Tom & Jerry.mov", durationSeconds: 60, frameRate: 25, width: 1920, height: 1080, audioCodec: null },
+    videoFade: true,
+    audioFade: true,
+    fadeDuration: 0.5,
+    seed: 42,
+  };
+
+  test("EDL events butt up on a record side starting at 01:00:00:00 and carry the clip details as comments", () => {
+    const lines = buildEdl(clips, options).split("\r\n");
+
+    assert.deepEqual(lines.slice(0, 3), ["TITLE: Tom & Jerry", "FCM: NON-DROP FRAME", ""]);
+    assert.deepEqual(lines.filter(line => /^\d{3} /.test(line)), [
+      // 12.5s sits between frames 312 and 313 at 25fps and rounds up
+      "001  AX       V     C        00:00:10:00 00:00:12:13 01:00:00:00 01:00:02:13",
+      "002  AX       V     C        00:00:30:00 00:00:31:00 01:00:02:13 01:00:03:13",
+    ]);
+    assert.ok(lines.includes("* LOC: 01:00:00:00 WHITE   Verse"));
+    assert.ok(lines.includes("* ASPECT RATIO: 9:16"));
+    assert.ok(lines.includes("* FADES: video + audio in/out 0.5s"));
+    assert.ok(lines.includes("* OUTPUT FILE: clips (9x16)/b <1>.mp4"));
+  });
+
+  test("EDL events include the audio tracks when the master has sound and leave out fades when there are none", () => {
+    const edl = buildEdl(clips.slice(0, 1), { ...options, video: { ...options.video, audioCodec: "aac" }, videoFade: false, audioFade: false });
+    assert.match(edl, /^001  AX       AA\/V  C /m);
+    assert.doesNotMatch(edl, /FADES/);
+  });
+
+  test("FCPXML counts time in frames of the master's rate and escapes names", () => {
+    const fcpxml = buildFcpxml(clips, options);
+
+    assert.match(fcpxml, /<format id="r1" frameDuration="1\/25s" width="1920" height="1080"\/>/);
+    assert.match(fcpxml, /<asset id="r2" name="Tom &amp; Jerry.mov" src="Tom%20&amp;%20Jerry.mov" start="0s" duration="1500\/25s" hasVideo="1" hasAudio="0"/);
+    assert.match(fcpxml, /<sequence format="r1" duration="88\/25s"/);
+    assert.match(fcpxml, /<asset-clip ref="r2" name="Verse" offset="0\/25s" start="250\/25s" duration="63\/25s"/);
+    assert.match(fcpxml, /<asset-clip ref="r2" name="b &lt;1&gt;.mp4" offset="63\/25s" start="750\/25s" duration="25\/25s"/);
+    assert.match(fcpxml, /<note>Aspect ratio 16:9; Fades video \+ audio in\/out 0.5s; Output clips \(16x9\)\/a.mp4<\/note>/);
+  });
+
+  test("FCPXML uses a 1001-based frame duration for NTSC rates", () => {
+    const fcpxml = buildFcpxml(clips.slice(0, 1), { ...options, video: { ...options.video, frameRate: 30000 / 1001 } });
+
+    assert.match(fcpxml, /frameDuration="1001\/30000s"/);
+    // 10s is frame 300 at 29.97fps
+    assert.match(fcpxml, /start="300300\/30000s"/);
+  });
+
+  test("the manifest lists each clip's source range in seconds, timestamps and timecode", () => {
+    const manifest = JSON.parse(buildCutListManifest(clips, { ...options, audioFade: false }));
+
+    assert.equal(manifest.title, "Tom & Jerry");
+    assert.equal(manifest.seed, 42);
+    assert.deepEqual(manifest.source, { fileName: "Tom & Jerry.mov", durationSeconds: 60, frameRate: 25, width: 1920, height: 1080 });
+    assert.deepEqual(manifest.clips[0], {
+      file: "clips (16x9)/a.mp4",
+      label: "Verse",
+      aspectRatio: "16:9",
+      sourceIn: "00:00:10",
+      sourceOut: "00:00:12.5",
+      sourceInSeconds: 10,
+      sourceOutSeconds: 12.5,
+      sourceInTimecode: "00:00:10:00",
+      sourceOutTimecode: "00:00:12:13",
+      durationSeconds: 2.5,
+      videoFade: true,
+      audioFade: false,
+      fadeDuration: 0.5,
+    });
+    assert.equal(manifest.clips[1].label, null);
+  });
+
+  test("the manifest has no fade length when nothing fades and a null seed when none was recorded", () => {
+    const manifest = JSON.parse(buildCutListManifest(clips, { ...options, videoFade: false, audioFade: false, seed: undefined }));
+    assert.equal(manifest.seed, null);
+    assert.equal(manifest.clips[0].fadeDuration, null);
+  });
+});
@@ -0,0 +1,624 @@
+/*
+ * © 2025 Full Digital LLC. All Rights Reserved.
+ * CUTMV - Music Video Cut-Down Tool
+ * Proprietary software - unauthorized use prohibited
+ */
+
+// Cut list import: turns selects marked in an NLE (CMX3600 EDL, Resolve marker EDL, FCPXML,
+// Premiere marker CSV or a generic CSV) into the timestamp list the rest of the app works with.
+// Cut list export: describes rendered clips as EDL, FCPXML and JSON so editors can relink them to the master.
+
+import {
+  DEFAULT_FRAME_RATE,
+  normalizeTimestamp,
+  secondsToSmpte,
+  secondsToTimestamp,
+  timestampToSeconds,
+  validateTimestamps,
+  type ParsedTimestamp,
+  type TimestampIssue,
+  type TimestampParseResult,
+  type TimestampValidationOptions,
+} from "@shared/timestamps";
+import type { AspectRatio, Timestamp, Video } from "@shared/schema";
+
+export const CUT_LIST_FORMATS = ['cmx3600', 'resolve-markers', 'fcpxml', 'premiere-markers', 'csv'] as const;
+export type CutListFormat = typeof CUT_LIST_FORMATS[number];
+
+export interface CutListImportResult extends TimestampParseResult {
+  format: CutListFormat;
+}
+
+// One select read from a file; markers without a length have no end and run until the next one
+interface CutListEntry {
+  line: number;
+  startSeconds: number;
+  endSeconds?: number;
+  label?: string;
+}
+
+interface CutListReadResult {
+  entries: CutListEntry[];
+  errors: TimestampIssue[];
+  warnings: TimestampIssue[];
+}
+
+// Premiere writes marker CSVs as UTF-16LE with a BOM; everything else is expected to be UTF-8
+export function decodeCutListFile(buffer: Buffer): string {
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return buffer.subarray(2).toString('utf16le');
+  }
+  return buffer.toString('utf8').replace(/^\uFEFF/, '');
+}
+
+export function detectCutListFormat(fileName: string, content: string): CutListFormat | null {
+  const head = content.slice(0, 4096);
+
+  if (/\.fcpxml$/i.test(fileName) || /<fcpxml[\s>]/.test(head)) {
+    return 'fcpxml';
+  }
+  if (/\.edl$/i.test(fileName) || /^TITLE:/m.test(head) || /^\d{3,6}\s+\S+\s+\S+\s+[CDWK]/m.test(head)) {
+    return /^\s*\|[CMD]:/m.test(content) ? 'resolve-markers' : 'cmx3600';
+  }
+  if (/\.(csv|tsv|txt)$/i.test(fileName)) {
+    return /marker name/i.test(head.split(/\r?\n/)[0]) ? 'premiere-markers' : 'csv';
+  }
+  return null;
+}
+
+// SMPTE timecode with : or ; between any fields (Premiere writes drop-frame as 00;00;10;00)
+function timecodeToSeconds(timecode: string, frameRate: number): number | null {
+  const match = timecode.trim().match(/^(\d{1,2})[:;](\d{2})[:;](\d{2})[:;.](\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const [, hours, minutes, seconds, frames] = match;
+  const separator = timecode.includes(';') ? ';' : ':';
+  return timestampToSeconds(`${hours}:${minutes}:${seconds}${separator}${frames}`, frameRate);
+}
+
+// CSV cells may hold SMPTE timecode, anything the timestamp grammar accepts, or plain seconds
+function csvTimeToSeconds(value: string, frameRate: number): number | null {
+  const timecodeSeconds = timecodeToSeconds(value, frameRate);
+  if (timecodeSeconds !== null) {
+    return timecodeSeconds;
+  }
+  const normalized = normalizeTimestamp(value, frameRate);
+  if (normalized) {
+    return timestampToSeconds(normalized, frameRate);
+  }
+  const seconds = Number(value.trim().replace(/s$/i, ''));
+  return value.trim() !== '' && Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+}
+
+function readEdl(content: string, frameRate: number, markers: boolean): CutListReadResult {
+  const entries: CutListEntry[] = [];
+  const errors: TimestampIssue[] = [];
+  const warnings: TimestampIssue[] = [];
+  const lines = content.split(/\r?\n/);
+  let current: (CutListEntry & { audioOnly: boolean; markerFrames?: number }) | null = null;
+  const events: Array<CutListEntry & { audioOnly: boolean; markerFrames?: number }> = [];
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const lineNumber = index + 1;
+    if (!line || /^(TITLE|FCM):/i.test(line)) return;
+
+    // Event: number, reel, track, transition [duration], source in/out, record in/out
+    const tokens = line.split(/\s+/);
+    if (/^\d{3,6}$/.test(tokens[0]) && tokens.length >= 8) {
+      const [sourceIn, sourceOut, recordIn, recordOut] = tokens.slice(-4);
+      const inTimecode = markers ? recordIn : sourceIn;
+      const outTimecode = markers ? recordOut : sourceOut;
+      const startSeconds = timecodeToSeconds(inTimecode, frameRate);
+      const endSeconds = timecodeToSeconds(outTimecode, frameRate);
+
+      if (startSeconds === null || endSeconds === null) {
+        errors.push({ line: lineNumber, message: `Unreadable timecode in event ${tokens[0]}` });
+        current = null;
+        return;
+      }
+
+      current = { line: lineNumber, startSeconds, endSeconds, audioOnly: !/V/i.test(tokens[2]) };
+      events.push(current);
+      return;
+    }
+
+    if (!current) return;
+
+    // Clip names and marker notes follow their event as comments
+    const clipName = line.match(/^\*\s*FROM CLIP NAME:\s*(.+)$/i);
+    const locator = line.match(/^\*\s*LOC:\s*\S+\s+\S+\s+(.+)$/i);
+    if (clipName) {
+      current.label = current.label ?? clipName[1].trim();
+    } else if (locator) {
+      current.label = locator[1].trim();
+    } else if (line.startsWith('|')) {
+      const markerName = line.match(/\|M:([^|]*)/);
+      const markerFrames = line.match(/\|D:(\d+)/);
+      if (markerName?.[1].trim()) current.label = markerName[1].trim();
+      if (markerFrames) current.markerFrames = Number(markerFrames[1]);
+    }
+  });
+
+  // Selects cut in with sound appear once per track; keep the video event
+  const hasVideo = events.some(event => !event.audioOnly);
+  const seen = new Set<string>();
+  for (const event of events) {
+    if (hasVideo && event.audioOnly) continue;
+
+    const key = `${event.startSeconds}-${event.endSeconds}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    // Resolve marker EDLs carry the marker length in |D:; a single frame is a point marker
+    let endSeconds = event.endSeconds;
+    if (markers) {
+      const frames = event.markerFrames ?? 1;
+      endSeconds = frames > 1 ? event.startSeconds + frames / frameRate : undefined;
+    }
+    entries.push({ line: event.line, startSeconds: event.startSeconds, endSeconds, label: event.label });
+  }
+
+  return { entries, errors, warnings };
+}
+
+// FCPXML times are rational seconds: "1001/30000s", "10s"
+function fcpxmlTimeToSeconds(value?: string): number | null {
+  const match = value?.match(/^(-?\d+)(?:\/(\d+))?s$/);
+  if (!match) return null;
+  return Number(match[1]) / (match[2] ? Number(match[2]) : 1);
+}
+
+function parseXmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of Array.from(source.matchAll(/([\w:-]+)="([^"]*)"/g))) {
+    attributes[match[1]] = match[2]
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&');
+  }
+  return attributes;
+}
+
+const FCPXML_CLIP_ELEMENTS = new Set(['asset-clip', 'clip', 'mc-clip', 'ref-clip', 'sync-clip']);
+
+function readFcpxml(content: string): CutListReadResult {
+  const errors: TimestampIssue[] = [];
+  const warnings: TimestampIssue[] = [];
+  const clips: CutListEntry[] = [];
+  const marks: CutListEntry[] = [];
+
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') lineStarts.push(i + 1);
+  }
+  const lineAt = (offset: number) => {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) line++;
+    return line + 1;
+  };
+
+  // Asset start times let clip and marker positions be expressed relative to the media itself
+  const assetStarts = new Map<string, number>();
+  for (const match of Array.from(content.matchAll(/<(?:asset|media)\b([^>]*)>/g))) {
+    const attributes = parseXmlAttributes(match[1]);
+    if (attributes.id) {
+      assetStarts.set(attributes.id, fcpxmlTimeToSeconds(attributes.start) ?? 0);
+    }
+  }
+
+  // Walk tags in order, keeping the enclosing clip so nested markers know their time base
+  const clipStack: Array<{ name: string; label?: string; offset: number }> = [];
+  for (const match of Array.from(content.matchAll(/<(\/?)([\w-]+)\b([^>]*?)(\/?)>/g))) {
+    const [, closing, element, attributeSource, selfClosing] = match;
+    const line = lineAt(match.index ?? 0);
+
+    if (closing) {
+      if (FCPXML_CLIP_ELEMENTS.has(element)) clipStack.pop();
+      continue;
+    }
+
+    const attributes = parseXmlAttributes(attributeSource);
+
+    if (FCPXML_CLIP_ELEMENTS.has(element)) {
+      const start = fcpxmlTimeToSeconds(attributes.start) ?? 0;
+      const duration = fcpxmlTimeToSeconds(attributes.duration);
+      const offset = attributes.ref ? assetStarts.get(attributes.ref) ?? 0 : 0;
+
+      if (duration === null) {
+        warnings.push({ line, message: `Skipped ${element} without a duration` });
+      } else {
+        clips.push({ line, startSeconds: start - offset, endSeconds: start - offset + duration, label: attributes.name });
+      }
+      if (!selfClosing) {
+        clipStack.push({ name: element, label: attributes.name, offset });
+      }
+      continue;
+    }
+
+    const isMarker = element === 'marker' || element === 'chapter-marker';
+    const isKeyword = element === 'keyword' && attributes.duration !== undefined;
+    const isFavorite = element === 'rating' && attributes.value === 'favorite';
+    if (!isMarker && !isKeyword && !isFavorite) continue;
+
+    const parent = clipStack[clipStack.length - 1];
+    if (!parent) {
+      warnings.push({ line, message: `Skipped ${element} outside of a clip` });
+      continue;
+    }
+
+    const start = fcpxmlTimeToSeconds(attributes.start);
+    const duration = fcpxmlTimeToSeconds(attributes.duration);
+    if (start === null) {
+      errors.push({ line, message: `Unreadable start time on ${element}` });
+      continue;
+    }
+
+    // Markers are one frame long in FCP - treat them as points
+    const isPoint = isMarker && (duration === null || duration <= 1 / 23);
+    marks.push({
+      line,
+      startSeconds: start - parent.offset,
+      endSeconds: isPoint || duration === null ? undefined : start - parent.offset + duration,
+      label: attributes.value && !isFavorite ? attributes.value : parent.label,
+    });
+  }
+
+  // Marked selects win over the clips they sit on, which usually just span the whole master
+  return { entries: marks.length > 0 ? marks : clips, errors, warnings };
+}
+
+// Minimal RFC 4180 reader that remembers the source line each row starts on
+function parseDelimited(content: string, delimiter: string): Array<{ line: number; cells: string[] }> {
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      cells.push(cell);
+      if (cells.some(value => value.trim())) rows.push({ line: rowLine, cells });
+      cells = [];
+      cell = '';
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  if (cells.some(value => value.trim())) rows.push({ line: rowLine, cells });
+
+  return rows;
+}
+
+function detectDelimiter(headerLine: string): string {
+  const candidates = ['\t', ',', ';'];
+  return candidates.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+}
+
+const CSV_COLUMNS = {
+  label: /^(marker name|name|label|title|clip|clip name|description)$/i,
+  start: /^(in|start|start time|begin|source in|timecode in|time)$/i,
+  end: /^(out|end|end time|source out|timecode out)$/i,
+  duration: /^(duration|length)$/i,
+};
+
+function readCsv(content: string, frameRate: number): CutListReadResult {
+  const entries: CutListEntry[] = [];
+  const errors: TimestampIssue[] = [];
+  const warnings: TimestampIssue[] = [];
+
+  const rows = parseDelimited(content, detectDelimiter(content.split(/\r?\n/)[0] ?? ''));
+  if (rows.length === 0) {
+    return { entries, errors, warnings };
+  }
+
+  // Columns come from the header when there is one, otherwise start, end, name
+  const header = rows[0].cells.map(cell => cell.trim());
+  const findColumn = (pattern: RegExp) => header.findIndex(cell => pattern.test(cell));
+  const hasHeader = findColumn(CSV_COLUMNS.start) !== -1;
+  const columns = hasHeader
+    ? {
+        label: findColumn(CSV_COLUMNS.label),
+        start: findColumn(CSV_COLUMNS.start),
+        end: findColumn(CSV_COLUMNS.end),
+        duration: findColumn(CSV_COLUMNS.duration),
+      }
+    : { start: 0, end: 1, label: 2, duration: -1 };
+
+  for (const row of hasHeader ? rows.slice(1) : rows) {
+    const value = (column: number) => (column >= 0 ? row.cells[column]?.trim() ?? '' : '');
+    const startSeconds = csvTimeToSeconds(value(columns.start), frameRate);
+    if (startSeconds === null) {
+      errors.push({ line: row.line, message: `Unreadable start time "${value(columns.start)}"` });
+      continue;
+    }
+
+    let endSeconds: number | undefined;
+    if (value(columns.end)) {
+      const parsedEnd = csvTimeToSeconds(value(columns.end), frameRate);
+      if (parsedEnd === null) {
+        errors.push({ line: row.line, message: `Unreadable end time "${value(columns.end)}"` });
+        continue;
+      }
+      endSeconds = parsedEnd;
+    } else if (value(columns.duration)) {
+      const duration = csvTimeToSeconds(value(columns.duration), frameRate);
+      endSeconds = duration ? startSeconds + duration : undefined;
+    }
+
+    // Zero-length markers (In == Out) are points
+    if (endSeconds !== undefined && endSeconds <= startSeconds) {
+      endSeconds = undefined;
+    }
+
+    entries.push({ line: row.line, startSeconds, endSeconds, label: value(columns.label) || undefined });
+  }
+
+  return { entries, errors, warnings };
+}
+
+export function importCutList(
+  content: string,
+  fileName: string,
+  options: TimestampValidationOptions & { format?: CutListFormat } = {}
+): CutListImportResult {
+  const format = options.format ?? detectCutListFormat(fileName, content) ?? 'csv';
+  const frameRate = options.frameRate ?? DEFAULT_FRAME_RATE;
+
+  const read =
+    format === 'fcpxml' ? readFcpxml(content)
+    : format === 'cmx3600' || format === 'resolve-markers' ? readEdl(content, frameRate, format === 'resolve-markers')
+    : readCsv(content, frameRate);
+
+  const errors = [...read.errors];
+  const warnings = [...read.warnings];
+  const entries = [...read.entries].sort((a, b) => a.startSeconds - b.startSeconds);
+
+  // Masters usually start at 01:00:00:00; if every select sits past the end of the video, drop the hour offset
+  const videoDuration = options.videoDurationSeconds;
+  if (entries.length > 0 && videoDuration && entries[0].startSeconds >= videoDuration) {
+    const offset = Math.floor(entries[0].startSeconds / 3600) * 3600;
+    if (offset > 0 && entries[0].startSeconds - offset < videoDuration) {
+      entries.forEach(entry => {
+        entry.startSeconds -= offset;
+        if (entry.endSeconds !== undefined) entry.endSeconds -= offset;
+      });
+      warnings.push({ line: entries[0].line, message: `Timecodes start at ${secondsToTimestamp(offset)}; shifted to match the video` });
+    }
+  }
+
+  // Point markers run until the next select starts, the last one to the end of the video
+  const timestamps: Array<ParsedTimestamp> = [];
+  entries.forEach((entry, index) => {
+    let endSeconds = entry.endSeconds;
+    if (endSeconds === undefined) {
+      endSeconds = entries[index + 1]?.startSeconds ?? videoDuration ?? undefined;
+      if (endSeconds === undefined || endSeconds <= entry.startSeconds) {
+        errors.push({ line: entry.line, message: 'Marker has no length and nothing follows it to end on' });
+        return;
+      }
+      warnings.push({ line: entry.line, message: 'Marker has no length; the clip runs until the next marker' });
+    }
+
+    timestamps.push({
+      startTime: secondsToTimestamp(entry.startSeconds),
+      endTime: secondsToTimestamp(endSeconds),
+      ...(entry.label ? { label: entry.label.slice(0, 100) } : {}),
+      line: entry.line,
+      duration: endSeconds - entry.startSeconds,
+    });
+  });
+
+  if (entries.length === 0 && errors.length === 0) {
+    errors.push({ line: 1, message: 'No clips or markers found in this file' });
+  }
+
+  const validation = validateTimestamps(timestamps, options);
+  return {
+    format,
+    timestamps: validation.timestamps,
+    errors: [...errors, ...validation.errors].sort((a, b) => a.line - b.line),
+    warnings: [...warnings, ...validation.warnings].sort((a, b) => a.line - b.line),
+  };
+}
+
+// One rendered clip as it appears in the export sidecars
+export interface CutListClip {
+  timestamp: Timestamp;
+  aspectRatio: AspectRatio;
+  // Path of the rendered file inside the ZIP
+  file: string;
+}
+
+export interface CutListExportOptions {
+  title: string;
+  video: Pick<Video, 'originalName' | 'durationSeconds' | 'frameRate' | 'width' | 'height' | 'audioCodec'>;
+  videoFade: boolean;
+  audioFade: boolean;
+  fadeDuration: number;
+  // Seed the job's auto-generated picks came from
+  seed?: number;
+}
+
+// The record side starts at 01:00:00:00, the usual start of an NLE timeline
+const EDL_RECORD_START_HOURS = 1;
+
+function describeFades(options: CutListExportOptions): string | null {
+  const faded = [options.videoFade && 'video', options.audioFade && 'audio'].filter(Boolean);
+  return faded.length > 0 ? `${faded.join(' + ')} in/out ${options.fadeDuration}s` : null;
+}
+
+function clipSourceRange(clip: CutListClip, frameRate: number): { start: number; end: number } {
+  return {
+    start: timestampToSeconds(clip.timestamp.startTime, frameRate),
+    end: timestampToSeconds(clip.timestamp.endTime, frameRate),
+  };
+}
+
+// CMX3600: one event per rendered clip laid end to end on the record side, reading back through importCutList
+export function buildEdl(clips: CutListClip[], options: CutListExportOptions): string {
+  const frameRate = options.video.frameRate ?? DEFAULT_FRAME_RATE;
+  const track = options.video.audioCodec ? 'AA/V' : 'V';
+  const fades = describeFades(options);
+  const lines = [`TITLE: ${options.title}`, 'FCM: NON-DROP FRAME', ''];
+
+  // Record positions are counted in frames so events butt up exactly
+  const recordTimecode = (frame: number) => secondsToSmpte(frame / frameRate, frameRate);
+  let recordFrame = EDL_RECORD_START_HOURS * 3600 * Math.round(frameRate);
+  clips.forEach((clip, index) => {
+    const { start, end } = clipSourceRange(clip, frameRate);
+    const recordEnd = recordFrame + Math.round(end * frameRate) - Math.round(start * frameRate);
+    const event = String(index + 1).padStart(3, '0');
+
+    lines.push(
+      `${event}  AX       ${track.padEnd(6)}C        ${secondsToSmpte(start, frameRate)} ${secondsToSmpte(end, frameRate)} ${recordTimecode(recordFrame)} ${recordTimecode(recordEnd)}`,
+      `* FROM CLIP NAME: ${options.video.originalName}`,
+    );
+    if (clip.timestamp.label) {
+      lines.push(`* LOC: ${recordTimecode(recordFrame)} WHITE   ${clip.timestamp.label}`);
+    }
+    lines.push(`* ASPECT RATIO: ${clip.aspectRatio}`);
+    if (fades) {
+      lines.push(`* FADES: ${fades}`);
+    }
+    lines.push(`* OUTPUT FILE: ${clip.file}`, '');
+
+    recordFrame = recordEnd;
+  });
+
+  return lines.join('\r\n');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// NTSC rates run 1000/1001 slow and need a 1001-based frame duration to stay exact
+function fcpxmlFrameDuration(frameRate: number): { numerator: number; denominator: number } {
+  const nominalRate = Math.round(frameRate);
+  if (Math.abs(frameRate - nominalRate) > 0.001) {
+    return { numerator: 1001, denominator: nominalRate * 1000 };
+  }
+  return { numerator: 1, denominator: nominalRate };
+}
+
+// FCPXML: the master as one asset with a project whose spine holds each rendered clip, frame-aligned
+export function buildFcpxml(clips: CutListClip[], options: CutListExportOptions): string {
+  const frameRate = options.video.frameRate ?? DEFAULT_FRAME_RATE;
+  const { numerator, denominator } = fcpxmlFrameDuration(frameRate);
+  const toFrame = (seconds: number) => Math.round(seconds * frameRate);
+  const time = (frames: number) => `${frames * numerator}/${denominator}s`;
+  const fades = describeFades(options);
+  const title = escapeXml(options.title);
+  const sourceName = escapeXml(options.video.originalName);
+
+  const spine: string[] = [];
+  let offsetFrames = 0;
+  for (const clip of clips) {
+    const { start, end } = clipSourceRange(clip, frameRate);
+    const durationFrames = toFrame(end) - toFrame(start);
+    const name = escapeXml(clip.timestamp.label || clip.file.split('/').pop() || clip.file);
+    const note = escapeXml([`Aspect ratio ${clip.aspectRatio}`, fades && `Fades ${fades}`, `Output ${clip.file}`].filter(Boolean).join('; '));
+
+    spine.push(
+      `            <asset-clip ref="r2" name="${name}" offset="${time(offsetFrames)}" start="${time(toFrame(start))}" duration="${time(durationFrames)}" format="r1" tcFormat="NDF">`,
+      `              <note>${note}</note>`,
+      `            </asset-clip>`,
+    );
+    offsetFrames += durationFrames;
+  }
+
+  const sourceFrames = options.video.durationSeconds ? toFrame(options.video.durationSeconds) : offsetFrames;
+  const size = options.video.width && options.video.height ? ` width="${options.video.width}" height="${options.video.height}"` : '';
+  const hasAudio = options.video.audioCodec ? '1' : '0';
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE fcpxml>',
+    '<fcpxml version="1.8">',
+    '  <resources>',
+    `    <format id="r1" frameDuration="${numerator}/${denominator}s"${size}/>`,
+    `    <asset id="r2" name="${sourceName}" src="${escapeXml(encodeURI(options.video.originalName))}" start="0s" duration="${time(sourceFrames)}" hasVideo="1" hasAudio="${hasAudio}" format="r1"/>`,
+    '  </resources>',
+    '  <library>',
+    `    <event name="${title}">`,
+    `      <project name="${title}">`,
+    `        <sequence format="r1" duration="${time(offsetFrames)}" tcStart="0s" tcFormat="NDF">`,
+    '          <spine>',
+    ...spine,
+    '          </spine>',
+    '        </sequence>',
+    '      </project>',
+    '    </event>',
+    '  </library>',
+    '</fcpxml>',
+    '',
+  ].join('\n');
+}
+
+// Everything the EDL and FCPXML carry, in a form scripts can read without an NLE
+export function buildCutListManifest(clips: CutListClip[], options: CutListExportOptions): string {
+  const frameRate = options.video.frameRate ?? DEFAULT_FRAME_RATE;
+
+  return JSON.stringify({
+    title: options.title,
+    seed: options.seed ?? null,
+    source: {
+      fileName: options.video.originalName,
+      durationSeconds: options.video.durationSeconds,
+      frameRate: options.video.frameRate,
+      width: options.video.width,
+      height: options.video.height,
+    },
+    clips: clips.map(clip => {
+      const { start, end } = clipSourceRange(clip, frameRate);
+      return {
+        file: clip.file,
+        label: clip.timestamp.label ?? null,
+        aspectRatio: clip.aspectRatio,
+        sourceIn: clip.timestamp.startTime,
+        sourceOut: clip.timestamp.endTime,
+        sourceInSeconds: start,
+        sourceOutSeconds: end,
+        sourceInTimecode: secondsToSmpte(start, frameRate),
+        sourceOutTimecode: secondsToSmpte(end, frameRate),
+        durationSeconds: end - start,
+        videoFade: options.videoFade,
+        audioFade: options.audioFade,
+        fadeDuration: options.videoFade || options.audioFade ? options.fadeDuration : null,
+      };
+    }),
+  }, null, 2);
+}
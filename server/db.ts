@@ -0,0 +1,29 @@
+/*
+ * © 2025 Full Digital LLC. All Rights Reserved.
+ * CUTMV - Music Video Cut-Down Tool
+ * Proprietary software - unauthorized use prohibited
+ */
+
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle, type NeonDatabase } from "drizzle-orm/neon-serverless";
+import { migrate } from "drizzle-orm/neon-serverless/migrator";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export const MIGRATIONS_FOLDER = "migrations";
+
+// Any drizzle Postgres driver: Neon in production, an embedded Postgres such as PGlite under test
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function createDb(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
+
+// Apply any pending SQL migrations generated by drizzle-kit into ./migrations
+export async function migrateDatabase(db: NeonDatabase<typeof schema>): Promise<void> {
+  await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+}
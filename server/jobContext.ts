@@ -0,0 +1,45 @@
+/*
+ * © 2025 Full Digital LLC. All Rights Reserved.
+ * CUTMV - Music Video Cut-Down Tool
+ * Proprietary software - unauthorized use prohibited
+ */
+
+// Cancellation plumbing shared by every module that runs FFmpeg on behalf of an export job
+
+// Minimal surface of a fluent-ffmpeg command needed to stop it mid-encode
+export interface FfmpegCommandHandle {
+  kill(signal?: string): unknown;
+  on(event: string, listener: (...args: any[]) => void): unknown;
+}
+
+// Per-job hooks the export stages use to report back to the job worker
+export interface JobContext {
+  jobId: number;
+  cancelled: boolean;
+  commands: Set<FfmpegCommandHandle>;
+  itemCompleted: () => void;
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Processing cancelled by user');
+    this.name = 'JobCancelledError';
+  }
+}
+
+export function throwIfCancelled(ctx?: JobContext): void {
+  if (ctx?.cancelled) {
+    throw new JobCancelledError();
+  }
+}
+
+// Register a live FFmpeg command with its job so cancellation can kill it; it is released when it ends or fails
+export function trackCommand<T extends FfmpegCommandHandle>(ctx: JobContext | undefined, command: T): T {
+  if (!ctx) return command;
+
+  ctx.commands.add(command);
+  const release = () => ctx.commands.delete(command);
+  command.on('end', release);
+  command.on('error', release);
+  return command;
+}
@@ -0,0 +1,524 @@
+/*
+ * © 2025 Full Digital LLC. All Rights Reserved.
+ * CUTMV - Music Video Cut-Down Tool
+ * Proprietary software - unauthorized use prohibited
+ */
+
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import fs from "fs/promises";
+import AdmZip from "adm-zip";
+import { storage } from "./storage";
+import {
+  processClipWithAspectRatio,
+  displayAspect,
+  generateGifExport,
+  generateLoopExport,
+  generateThumbnailExports,
+  evenThumbnailTimes,
+  videoDurationSeconds,
+  generateCanvasExports,
+  pickAutoRanges,
+  BACKGROUNDS_DIR,
+} from "./processing";
+import { throwIfCancelled, JobCancelledError, type JobContext } from "./jobContext";
+import { pickSmartThumbnailTimes } from "./thumbnails";
+import { validateCanvasExport, type CanvasCheck } from "./canvas";
+import { buildEdl, buildFcpxml, buildCutListManifest, type CutListClip } from "./cutlists";
+import { generateSeed } from "./random";
+import { DEFAULT_FRAME_RATE } from "@shared/timestamps";
+import { ASPECT_RATIO_PRESETS } from "@shared/aspectRatios";
+import { gifOptionsSchema, thumbnailOptionsSchema, canvasOptionsSchema, type ProcessingJob, type Video } from "@shared/schema";
+
+// How often the worker checks storage for newly queued jobs
+const POLL_INTERVAL_MS = 2000;
+// How often a running job's heartbeat is written, and how long one can go quiet before another instance
+// treats the job as orphaned and requeues it
+const HEARTBEAT_INTERVAL_MS = 15000;
+const STALE_AFTER_MS = 60000;
+
+// Identifies this process on the jobs it claims, so a worker can tell when its claim was taken over
+const WORKER_ID = `${os.hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+
+let workerTimer: NodeJS.Timeout | null = null;
+let workerBusy = false;
+
+// Contexts of the jobs running in this process, looked up on cancellation
+const activeJobs = new Map<number, JobContext>();
+
+// Clip labels come from free text; keep them portable as file names inside the ZIP
+function toFilenameSegment(label: string): string {
+  return label
+    .replace(/[\\/:*?"<>|\x00-\x1f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 60);
+}
+
+// Start the background worker that runs queued export jobs one at a time
+export async function startJobWorker(): Promise<void> {
+  if (workerTimer) return;
+
+  // Unref'd like the upload cleanup timer: the HTTP server is what keeps the process alive
+  workerTimer = setInterval(() => {
+    void pollQueue();
+  }, POLL_INTERVAL_MS).unref();
+  void pollQueue();
+}
+
+async function pollQueue(): Promise<void> {
+  if (workerBusy) return;
+  workerBusy = true;
+
+  try {
+    // Jobs whose worker stopped beating (a crash or restart of any instance) run again. Live workers keep
+    // their jobs fresh, so several instances can share the queue without rendering a job twice.
+    const orphaned = await storage.requeueStaleJobs(new Date(Date.now() - STALE_AFTER_MS));
+    for (const job of orphaned) {
+      console.log(`🔁 Requeueing orphaned job ${job.id}`);
+    }
+
+    let job = await storage.claimNextJob(WORKER_ID);
+    while (job) {
+      await runJob(job);
+      job = await storage.claimNextJob(WORKER_ID);
+    }
+  } catch (error) {
+    console.error('Job worker error:', error);
+  } finally {
+    workerBusy = false;
+  }
+}
+
+async function runJob(job: ProcessingJob): Promise<void> {
+  console.log(`🚀 Starting job ${job.id} for video ${job.videoId}`);
+
+  let completedOutputs = 0;
+  const ctx: JobContext = {
+    jobId: job.id,
+    cancelled: false,
+    commands: new Set(),
+    itemCompleted: () => {
+      completedOutputs++;
+      const progress = Math.min(95, Math.round((completedOutputs / Math.max(1, job.totalOutputs)) * 100));
+      storage.updateJob(job.id, { progress }).catch(() => {});
+    },
+  };
+  activeJobs.set(job.id, ctx);
+
+  // The heartbeat also picks up cancels made through another instance, which can't reach our FFmpeg
+  // processes, and stops the render if the job was requeued after a missed heartbeat
+  const heartbeat = setInterval(async () => {
+    try {
+      const current = await storage.getJob(job.id);
+      if (!ownsJob(current)) {
+        abortJob(ctx);
+        return;
+      }
+      await storage.updateJob(job.id, { heartbeatAt: new Date() });
+    } catch (error) {
+      console.warn(`⚠️ Heartbeat failed for job ${job.id}:`, error);
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const downloadPath = await runExportJob(job, ctx);
+
+    // A cancel (or a takeover by another worker) that lands after the last stage still wins over completion
+    const current = await storage.getJob(job.id);
+    if (!ownsJob(current)) {
+      console.log(`🛑 Job ${job.id} was cancelled or taken over`);
+      return;
+    }
+
+    await storage.updateJob(job.id, {
+      status: 'completed',
+      progress: 100,
+      downloadPath,
+      completedAt: new Date(),
+    });
+    console.log(`✅ Job ${job.id} completed: ${downloadPath}`);
+  } catch (error) {
+    if (error instanceof JobCancelledError || ctx.cancelled) {
+      console.log(`🛑 Job ${job.id} was cancelled`);
+      return;
+    }
+
+    console.error(`❌ Job ${job.id} failed:`, error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const current = await storage.getJob(job.id);
+    if (!ownsJob(current)) return;
+    await storage.updateJob(job.id, {
+      status: 'error',
+      errors: [...(current?.errors ?? []), message],
+      completedAt: new Date(),
+    });
+  } finally {
+    clearInterval(heartbeat);
+    activeJobs.delete(job.id);
+  }
+}
+
+// Whether this worker still holds the job: not cancelled, not requeued, not claimed by another instance
+function ownsJob(job: ProcessingJob | undefined): boolean {
+  return job?.status === 'processing' && job.workerId === WORKER_ID;
+}
+
+// Flag a job running in this process as cancelled and kill its FFmpeg processes
+function abortJob(ctx: JobContext): void {
+  if (ctx.cancelled) return;
+  ctx.cancelled = true;
+  for (const command of Array.from(ctx.commands)) {
+    command.kill('SIGKILL');
+  }
+  console.log(`🛑 Cancelling job ${ctx.jobId}: killed ${ctx.commands.size} FFmpeg process(es)`);
+}
+
+// Stop a queued or running job. Running FFmpeg processes are killed and the
+// pipeline bails out at its next checkpoint, removing its partial outputs. A job running on
+// another instance is stopped by that instance when its next heartbeat sees the cancelled status.
+export async function cancelJob(job: ProcessingJob): Promise<ProcessingJob | undefined> {
+  const ctx = activeJobs.get(job.id);
+  if (ctx) {
+    abortJob(ctx);
+  }
+
+  return storage.updateJob(job.id, {
+    status: 'cancelled',
+    errors: [...job.errors, 'Processing cancelled by user'],
+    completedAt: new Date(),
+  });
+}
+
+function jobOutputDir(jobId: number): string {
+  return path.join('uploads', 'clips', `job-${jobId}`);
+}
+
+// Render every requested output for a job and package them into a ZIP, returning its download path
+async function runExportJob(job: ProcessingJob, ctx: JobContext): Promise<string> {
+  const video = await storage.getVideo(job.videoId);
+  if (!video) {
+    throw new Error('Video not found');
+  }
+
+  const finalOutputName = job.options.outputName || toFilenameSegment(video.originalName.replace(/\.[^/.]+$/, '')) || 'export';
+  // Each job renders into its own directory, so exports of the same video never share or delete files
+  const masterOutputDir = jobOutputDir(job.id);
+  await fs.mkdir(masterOutputDir, { recursive: true });
+
+  try {
+    return await renderOutputs(job, ctx, video, finalOutputName, masterOutputDir);
+  } catch (error) {
+    // Partial clips, palettes and Canvas temp files are useless once cancelled. A job taken over by another
+    // worker is aborted too, but its directory now belongs to the new run.
+    if (ctx.cancelled && (await storage.getJob(job.id))?.status === 'cancelled') {
+      await fs.rm(masterOutputDir, { recursive: true, force: true }).catch(() => {});
+      console.log(`🧹 Removed partial outputs in ${masterOutputDir}`);
+    }
+    throw error;
+  }
+}
+
+async function renderOutputs(
+  job: ProcessingJob,
+  ctx: JobContext,
+  video: Video,
+  finalOutputName: string,
+  masterOutputDir: string
+): Promise<string> {
+  const {
+    timestamps,
+    quality,
+    videoFade,
+    audioFade,
+    fadeDuration,
+    generateCutList,
+    generateGif,
+    generateThumbnails,
+    generateCanvas,
+    aspectRatios,
+    reframe = 'subject',
+    fitModes = {},
+    padColor = '#000000',
+    backgroundImage,
+    seed = generateSeed(),
+  } = job.options;
+  // Jobs queued before GIF options existed get the defaults
+  const gif = gifOptionsSchema.parse(job.options.gif ?? {});
+  const thumbnails = thumbnailOptionsSchema.parse(job.options.thumbnails ?? {});
+  const canvas = canvasOptionsSchema.parse(job.options.canvas ?? {});
+
+  // GIF and Canvas sections come from the job's seed, matching what was previewed
+  const autoRanges = pickAutoRanges(video, seed, gif, canvas);
+
+  // Create separate folders for different content types and aspect ratios
+  const gifsDir = path.join(masterOutputDir, 'gifs');
+  const thumbnailsDir = path.join(masterOutputDir, 'thumbnails');
+  const canvasDir = path.join(masterOutputDir, 'canvas');
+
+  if (timestamps.length > 0) {
+    for (const aspectRatio of aspectRatios) {
+      await fs.mkdir(path.join(masterOutputDir, ASPECT_RATIO_PRESETS[aspectRatio].folder), { recursive: true });
+    }
+  }
+  if (generateGif) {
+    await fs.mkdir(gifsDir, { recursive: true });
+  }
+  if (generateThumbnails) {
+    await fs.mkdir(thumbnailsDir, { recursive: true });
+  }
+  if (generateCanvas) {
+    await fs.mkdir(canvasDir, { recursive: true });
+  }
+
+  const processedClips: string[] = [];
+  const renderedClips: CutListClip[] = [];
+  const errors: string[] = [];
+
+  const recordError = (message: string) => {
+    // Failures caused by killing FFmpeg on cancel are not real errors
+    if (ctx.cancelled) return;
+    errors.push(message);
+    storage.updateJob(job.id, { errors: [...errors] }).catch(() => {});
+  };
+
+  // Stage 1: Process clips for each aspect ratio
+  let clipCounter = 0;
+  for (let i = 0; i < timestamps.length; i++) {
+    const timestamp = timestamps[i];
+    const clipNumber = String(i + 1).padStart(2, '0');
+
+    for (const aspectRatio of aspectRatios) {
+      throwIfCancelled(ctx);
+      clipCounter++;
+      const { folder, suffix } = ASPECT_RATIO_PRESETS[aspectRatio];
+      const outputDir = path.join(masterOutputDir, folder);
+      const clipLabel = timestamp.label ? `-${toFilenameSegment(timestamp.label)}` : '';
+      const clipFilename = `${finalOutputName}-clip-${clipNumber}${clipLabel} ${suffix}.mp4`;
+      const outputPath = path.join(outputDir, clipFilename);
+
+      await storage.updateJob(job.id, { currentClip: clipCounter });
+
+      try {
+        console.log(`Processing clip ${clipCounter}/${job.totalClips}: ${timestamp.startTime} - ${timestamp.endTime} [${aspectRatio}]`);
+
+        await processClipWithAspectRatio(
+          video.path,
+          timestamp.startTime,
+          timestamp.endTime,
+          outputPath,
+          quality,
+          aspectRatio,
+          ctx,
+          clipCounter,
+          job.totalClips,
+          videoFade,
+          audioFade,
+          fadeDuration,
+          video.frameRate ?? DEFAULT_FRAME_RATE,
+          {
+            mode: reframe,
+            cropOffset: timestamp.cropOffset,
+            shotBoundaries: video.shotBoundaries ?? undefined,
+            sourceAspect: displayAspect(video),
+          },
+          {
+            mode: fitModes[aspectRatio] ?? ASPECT_RATIO_PRESETS[aspectRatio].fit,
+            padColor,
+            backgroundImage: backgroundImage ? path.join(BACKGROUNDS_DIR, backgroundImage) : undefined,
+          }
+        );
+        processedClips.push(outputPath);
+        renderedClips.push({ timestamp, aspectRatio, file: path.relative(masterOutputDir, outputPath).split(path.sep).join('/') });
+
+        // Save clip record
+        await storage.createClip({
+          videoId: video.id,
+          filename: clipFilename,
+          startTime: timestamp.startTime,
+          endTime: timestamp.endTime,
+          path: outputPath
+        });
+      } catch (error) {
+        console.error(`Error processing clip ${clipCounter} [${aspectRatio}]:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        recordError(`Failed to process clip ${clipCounter} [${aspectRatio}]: ${errorMessage}`);
+      }
+
+      ctx.itemCompleted();
+    }
+  }
+
+  // Cut list sidecars only describe the clips that actually rendered
+  throwIfCancelled(ctx);
+  if (generateCutList && renderedClips.length > 0) {
+    try {
+      const cutListDir = path.join(masterOutputDir, 'cut list');
+      await fs.mkdir(cutListDir, { recursive: true });
+
+      const cutListOptions = { title: finalOutputName, video, videoFade, audioFade, fadeDuration, seed };
+      const sidecars: Array<[string, string]> = [
+        [`${finalOutputName}.edl`, buildEdl(renderedClips, cutListOptions)],
+        [`${finalOutputName}.fcpxml`, buildFcpxml(renderedClips, cutListOptions)],
+        [`${finalOutputName}-manifest.json`, buildCutListManifest(renderedClips, cutListOptions)],
+      ];
+      for (const [fileName, content] of sidecars) {
+        const sidecarPath = path.join(cutListDir, fileName);
+        await fs.writeFile(sidecarPath, content, 'utf8');
+        processedClips.push(sidecarPath);
+      }
+      console.log(`📝 Wrote cut list for ${renderedClips.length} clips`);
+    } catch (error) {
+      console.error('❌ Cut list export failed:', error);
+      recordError('Failed to write cut list');
+    }
+  }
+
+  // Stage 2: Generate GIFs if requested
+  throwIfCancelled(ctx);
+  if (generateGif && gif.formats.includes('gif')) {
+    try {
+      console.log('🎬 Generating GIF exports...');
+      const { paths: gifPaths, report } = await generateGifExport(video.path, finalOutputName, gifsDir, autoRanges.gifs, gif, ctx);
+      if (gifPaths.length > 0) {
+        processedClips.push(...gifPaths);
+        console.log(`✅ ${gifPaths.length} GIFs generated successfully`);
+
+        // Settings and final size of every GIF, so budget misses are visible in the download
+        const reportPath = path.join(gifsDir, `${finalOutputName}-gif-report.json`);
+        await fs.writeFile(reportPath, JSON.stringify({ maxBytes: gif.maxBytes ?? null, gifs: report }, null, 2), 'utf8');
+        processedClips.push(reportPath);
+
+        for (const entry of report.filter(entry => !entry.withinBudget)) {
+          recordError(`${entry.file} is ${entry.bytes} bytes, over the ${entry.maxBytes} byte target even at ${entry.width}px, ${entry.fps}fps, ${entry.colors} colors`);
+        }
+      }
+    } catch (error) {
+      console.error('❌ GIF generation failed:', error);
+      recordError('Failed to generate GIFs');
+    }
+  }
+
+  // Stage 2: WebP, APNG and video loops of the same sections
+  if (generateGif) {
+    for (const format of gif.formats) {
+      if (format === 'gif') continue;
+      throwIfCancelled(ctx);
+      try {
+        const loopPaths = await generateLoopExport(video.path, finalOutputName, gifsDir, autoRanges.gifs, format, gif, ctx);
+        processedClips.push(...loopPaths);
+      } catch (error) {
+        console.error(`❌ ${format.toUpperCase()} loop generation failed:`, error);
+        recordError(`Failed to generate ${format.toUpperCase()} loops`);
+      }
+    }
+  }
+
+  // Stage 2: Generate Thumbnails if requested
+  throwIfCancelled(ctx);
+  if (generateThumbnails) {
+    try {
+      console.log('📸 Generating thumbnail exports...');
+      const durationSeconds = videoDurationSeconds(video);
+      let times = evenThumbnailTimes(durationSeconds, thumbnails.count);
+      if (thumbnails.mode === 'smart') {
+        try {
+          const picks = await pickSmartThumbnailTimes(video.path, durationSeconds, thumbnails.count, ctx);
+          if (picks.length > 0) {
+            times = picks.map(pick => pick.time);
+            console.log(`🧠 Picked thumbnails at ${picks.map(pick => `${pick.time.toFixed(1)}s (${pick.score.toFixed(2)})`).join(', ')}`);
+          }
+        } catch (error) {
+          // Evenly spaced stills are still useful, so a failed analysis isn't reported as an error
+          console.warn('⚠️ Thumbnail frame analysis failed, using evenly spaced stills:', error);
+        }
+      }
+      throwIfCancelled(ctx);
+      const thumbnailPaths = await generateThumbnailExports(video.path, finalOutputName, thumbnailsDir, times, thumbnails, ctx);
+      if (thumbnailPaths.length > 0) {
+        processedClips.push(...thumbnailPaths);
+        console.log(`✅ Generated ${thumbnailPaths.length} thumbnails`);
+      }
+    } catch (error) {
+      console.error('❌ Thumbnail generation failed:', error);
+      recordError('Failed to generate thumbnails');
+    }
+  }
+
+  // Stage 3: Generate Spotify Canvas if requested
+  throwIfCancelled(ctx);
+  if (generateCanvas) {
+    try {
+      console.log(`🎵 Generating Spotify Canvas exports...`);
+      const canvasPaths = await generateCanvasExports(video.path, finalOutputName, canvasDir, autoRanges.canvas, canvas, ctx);
+      if (canvasPaths.length > 0) {
+        processedClips.push(...canvasPaths);
+        console.log(`✅ Generated ${canvasPaths.length} Canvas loops`);
+
+        // Check every loop against Spotify's Canvas spec before it is packaged
+        const checks: CanvasCheck[] = [];
+        for (const canvasPath of canvasPaths) {
+          try {
+            checks.push(await validateCanvasExport(canvasPath));
+          } catch (error) {
+            console.warn(`⚠️ Could not probe ${path.basename(canvasPath)} for the Canvas spec:`, error);
+          }
+        }
+        for (const check of checks.filter(check => check.violations.length > 0)) {
+          recordError(`${check.file} does not meet the Spotify Canvas spec: ${check.violations.join('; ')}`);
+        }
+
+        const reportPath = path.join(canvasDir, `${finalOutputName}-canvas-report.json`);
+        await fs.writeFile(reportPath, JSON.stringify({ mode: canvas.mode, canvas: checks }, null, 2), 'utf8');
+        processedClips.push(reportPath);
+      }
+    } catch (error) {
+      console.error('❌ Canvas generation failed:', error);
+      recordError('Failed to generate Canvas loops');
+    }
+  }
+
+  throwIfCancelled(ctx);
+
+  // Check if we have any output at all (clips, GIFs, thumbnails, or Canvas) - AFTER processing
+  if (processedClips.length === 0) {
+    throw new Error('No content was generated - no clips, GIFs, thumbnails, or Canvas loops were processed');
+  }
+
+  // Determine ZIP suffix based on content type
+  let zipSuffix = 'clips';
+  if (timestamps.length > 0) {
+    zipSuffix = 'clips';
+  } else if (generateCanvas) {
+    zipSuffix = 'canvas';
+  } else if (generateGif && generateThumbnails) {
+    zipSuffix = 'exports';
+  } else if (generateGif) {
+    zipSuffix = 'gifs';
+  } else if (generateThumbnails) {
+    zipSuffix = 'thumbnails';
+  }
+
+  // Job ID keeps ZIPs from concurrent or repeated exports of the same video apart
+  const zipName = `${finalOutputName}-${zipSuffix}-job${job.id}.zip`;
+  const zipPath = path.join('uploads', 'clips', zipName);
+
+  console.log(`📦 Creating ZIP file: ${zipName} with organized folder structure`);
+
+  const zip = new AdmZip();
+  for (const clipPath of processedClips) {
+    const clipName = path.basename(clipPath);
+    const folderInZip = path.dirname(path.relative(masterOutputDir, clipPath));
+
+    if (folderInZip === '.' || folderInZip === '') {
+      zip.addLocalFile(clipPath, '', clipName);
+    } else {
+      zip.addLocalFile(clipPath, folderInZip + '/', clipName);
+    }
+  }
+
+  zip.writeZip(zipPath);
+
+  return `/api/download/${path.basename(zipPath)}`;
+}
@@ -0,0 +1,67 @@
+/*
+ * © 2025 Full Digital LLC. All Rights Reserved.
+ * CUTMV - Music Video Cut-Down Tool
+ * Proprietary software - unauthorized use prohibited
+ */
+
+// Loop builder shared by the GIF and Canvas stages: finds the pair of frames in a section that look most alike,
+// so a straight loop cuts back to the start invisibly, and blends the tail into the head for what still shows.
+
+import { extractLumaFrames, meanDifference, type CandidateFrame } from "./thumbnails";
+import type { JobContext } from "./jobContext";
+
+// Frames per second compared when searching; enough to land within a frame or two of the best match at 24-30fps
+const MATCH_RATE = 12;
+// How far past the requested start the loop may begin
+const MATCH_START_WINDOW_SECONDS = 1;
+
+export interface LoopPoint {
+  start: number;
+  end: number;
+  // Mean luma difference between the start and end frames, 0-255
+  difference: number;
+}
+
+// Most alike start/end pair with a length between minSeconds and maxSeconds; ties go to the longer loop
+export function bestLoopPoint(frames: CandidateFrame[], minSeconds: number, maxSeconds: number, startWindowSeconds: number = MATCH_START_WINDOW_SECONDS): LoopPoint | null {
+  if (frames.length < 2) return null;
+
+  const first = frames[0].time;
+  let best: LoopPoint | null = null;
+  for (let i = 0; i < frames.length && frames[i].time - first <= startWindowSeconds; i++) {
+    for (let j = i + 1; j < frames.length; j++) {
+      const length = frames[j].time - frames[i].time;
+      if (length < minSeconds) continue;
+      if (length > maxSeconds + 1e-6) break;
+
+      const difference = meanDifference(frames[i].pixels, frames[j].pixels);
+      if (!best || difference < best.difference || (difference === best.difference && length > best.end - best.start)) {
+        best = { start: frames[i].time, end: frames[j].time, difference };
+      }
+    }
+  }
+  return best;
+}
+
+// Search a section for its best loop: the loop starts within a second of `start` and runs minSeconds-maxSeconds
+export async function findLoopPoint(inputPath: string, start: number, minSeconds: number, maxSeconds: number, ctx?: JobContext): Promise<LoopPoint | null> {
+  const frames = await extractLumaFrames(inputPath, MATCH_RATE, start, maxSeconds + MATCH_START_WINDOW_SECONDS + 1 / MATCH_RATE, [], ctx);
+  return bestLoopPoint(frames, minSeconds, maxSeconds);
+}
+
+// Loop the input's first `loopSeconds` seamlessly: the last `fadeSeconds` blend into the opening frames, so the
+// output ends on the frame it starts with. Needs loopSeconds + fadeSeconds of input.
+export function crossfadeLoopFilter(input: string, loopSeconds: number, fadeSeconds: number, output: string): string {
+  const end = (loopSeconds + fadeSeconds).toFixed(3);
+  return [
+    `${input}split[loopbody][loophead]`,
+    `[loopbody]trim=start=${fadeSeconds.toFixed(3)}:end=${end},setpts=PTS-STARTPTS[loopmain]`,
+    `[loophead]trim=end=${fadeSeconds.toFixed(3)},setpts=PTS-STARTPTS[loopfade]`,
+    `[loopmain][loopfade]xfade=transition=fade:duration=${fadeSeconds.toFixed(3)}:offset=${(loopSeconds - fadeSeconds).toFixed(3)}${output}`,
+  ].join(';');
+}
+
+// Longest blend a loop of this length can take without the fade swallowing it
+export function fitCrossfade(loopSeconds: number, fadeSeconds: number): number {
+  return Math.min(fadeSeconds, loopSeconds / 3);
+}
@@ -0,0 +1,105 @@
+/*
+ * © 2025 Full Digital LLC. All Rights Reserved.
+ * CUTMV - Music Video Cut-Down Tool
+ * Proprietary software - unauthorized use prohibited
+ */
+
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { canvasOptionsSchema, gifOptionsSchema } from "@shared/schema";
+import { nextGifSettings, pickAutoRanges, settleWithLimit, type GifRenderSettings } from "./processing";
+
+// Every setting nextGifSettings walks through from `start`, starting with `start` itself
+function gifSettingsLadder(start: GifRenderSettings): GifRenderSettings[] {
+  const ladder = [start];
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const next = nextGifSettings(ladder[ladder.length - 1], attempt);
+    if (!next) return ladder;
+    ladder.push(next);
+  }
+  throw new Error("nextGifSettings never reached its floors");
+}
+
+describe("nextGifSettings", () => {
+  test("cuts colors, then fps, then width in turn", () => {
+    const ladder = gifSettingsLadder({ fps: 15, width: 480, colors: 256 });
+    assert.deepEqual(ladder.slice(0, 4), [
+      { fps: 15, width: 480, colors: 256 },
+      { fps: 15, width: 480, colors: 128 },
+      { fps: 11, width: 480, colors: 128 },
+      { fps: 11, width: 384, colors: 128 },
+    ]);
+  });
+
+  test("converges on the floors from the largest settings the schema allows", () => {
+    const ladder = gifSettingsLadder({ fps: 30, width: 1920, colors: 256 });
+    assert.deepEqual(ladder[ladder.length - 1], { fps: 5, width: 160, colors: 32 });
+
+    // Each step shrinks exactly one setting and keeps widths even
+    for (let i = 1; i < ladder.length; i++) {
+      const [previous, current] = [ladder[i - 1], ladder[i]];
+      const shrunk = (["fps", "width", "colors"] as const).filter(key => current[key] !== previous[key]);
+      assert.equal(shrunk.length, 1);
+      assert.ok(current[shrunk[0]] < previous[shrunk[0]]);
+      assert.equal(current.width % 2, 0);
+    }
+  });
+
+  test("skips settings already at their floor and never raises one set below it", () => {
+    assert.deepEqual(nextGifSettings({ fps: 3, width: 640, colors: 32 }, 0), { fps: 3, width: 512, colors: 32 });
+    assert.equal(nextGifSettings({ fps: 3, width: 64, colors: 16 }, 0), null);
+    assert.equal(nextGifSettings({ fps: 5, width: 160, colors: 32 }, 2), null);
+  });
+});
+
+describe("settleWithLimit", () => {
+  test("never runs more than the limit at once and keeps results in input order", async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await settleWithLimit([30, 10, 20, 5, 15, 0], 2, async (delay, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      running--;
+      if (index === 3) throw new Error("render failed");
+      return index;
+    });
+
+    assert.equal(peak, 2);
+    assert.deepEqual(results.map(result => result.status === "fulfilled" ? result.value : (result.reason as Error).message), [0, 1, 2, "render failed", 4, 5]);
+  });
+
+  test("settles an empty list without running anything", async () => {
+    assert.deepEqual(await settleWithLimit([], 4, async () => assert.fail("no task should run")), []);
+  });
+});
+
+describe("pickAutoRanges", () => {
+  const video = { duration: null, durationSeconds: 245.3, frameRate: 24000 / 1001 };
+  const gif = gifOptionsSchema.parse({ count: 10, duration: 4 });
+  const canvas = canvasOptionsSchema.parse({});
+
+  test("the same seed and options give the same ranges", () => {
+    const picks = pickAutoRanges(video, 987654321, gif, canvas);
+    assert.deepEqual(pickAutoRanges(video, 987654321, gif, canvas), picks);
+    assert.equal(picks.seed, 987654321);
+    assert.equal(picks.gifs.length, 10);
+    assert.ok(picks.canvas.length > 0);
+  });
+
+  test("a different seed gives different ranges", () => {
+    assert.notDeepEqual(pickAutoRanges(video, 1, gif, canvas).gifs, pickAutoRanges(video, 2, gif, canvas).gifs);
+  });
+
+  test("changing the Canvas options leaves the GIF picks alone", () => {
+    const shorterCanvas = canvasOptionsSchema.parse({ duration: 5 });
+    assert.deepEqual(pickAutoRanges(video, 42, gif, shorterCanvas).gifs, pickAutoRanges(video, 42, gif, canvas).gifs);
+  });
+
+  test("picks stay inside the video", () => {
+    const picks = pickAutoRanges(video, 7, gif, canvas);
+    for (const range of [...picks.gifs, ...picks.canvas]) {
+      assert.ok(range.start >= 0 && range.end <= video.durationSeconds && range.end > range.start);
+    }
+  });
+});
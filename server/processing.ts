@@ -0,0 +1,919 @@
+/*
+ * © 2025 Full Digital LLC. All Rights Reserved.
+ * CUTMV - Music Video Cut-Down Tool
+ * Proprietary software - unauthorized use prohibited
+ */
+
+import os from "os";
+import path from "path";
+import ffmpeg from "fluent-ffmpeg";
+import type { AspectRatio, CanvasOptions, FitMode, GifOptions, LoopFormat, ThumbnailFormat, ThumbnailOptions, ThumbnailPreset, Video } from "@shared/schema";
+import { timestampToSeconds, secondsToTimestamp, DEFAULT_FRAME_RATE } from "@shared/timestamps";
+import { createRandom, type RandomSource } from "./random";
+import { crossfadeLoopFilter, findLoopPoint, fitCrossfade } from "./loops";
+import { CANVAS_SPEC } from "./canvas";
+import { ASPECT_RATIO_PRESETS, presetAspect } from "@shared/aspectRatios";
+import { analyzeFraming, framingExpression, offsetToPosition, type ClipFraming } from "./reframe";
+import { JobCancelledError, throwIfCancelled, trackCommand, type JobContext } from "./jobContext";
+
+// Stream metadata recorded on the Video record after upload
+export type MediaProbe = Pick<Video,
+  'durationSeconds' | 'width' | 'height' | 'frameRate' | 'videoCodec' | 'rotation' |
+  'audioCodec' | 'audioChannels' | 'audioSampleRate' | 'bitrate'
+> & { hasVideoStream: boolean };
+
+function parseFrameRate(rate?: string): number | null {
+  if (!rate) return null;
+  const [num, den] = rate.split('/').map(Number);
+  const frameRate = den ? num / den : num;
+  return Number.isFinite(frameRate) && frameRate > 0 ? frameRate : null;
+}
+
+function toNumberOrNull(value: unknown): number | null {
+  const parsed = Number(value);
+  return value !== undefined && value !== null && value !== '' && Number.isFinite(parsed) ? parsed : null;
+}
+
+// Phone footage carries rotation either as a legacy "rotate" tag or a display matrix side data entry
+function parseRotation(stream: any): number {
+  const sideDataRotation = stream.side_data_list?.find((data: any) => data.rotation !== undefined)?.rotation;
+  const rotation = toNumberOrNull(sideDataRotation ?? stream.tags?.rotate) ?? 0;
+  return ((Math.round(rotation) % 360) + 360) % 360;
+}
+
+// PROBE MEDIA: Read container and stream metadata with ffprobe
+export function probeMedia(inputPath: string): Promise<MediaProbe> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(inputPath, (err: any, metadata: any) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+
+      const streams: any[] = metadata?.streams ?? [];
+      const videoStream = streams.find(s => s.codec_type === 'video' && s.disposition?.attached_pic !== 1);
+      const audioStream = streams.find(s => s.codec_type === 'audio');
+
+      resolve({
+        hasVideoStream: !!videoStream,
+        durationSeconds: toNumberOrNull(metadata?.format?.duration) ?? toNumberOrNull(videoStream?.duration),
+        width: toNumberOrNull(videoStream?.width),
+        height: toNumberOrNull(videoStream?.height),
+        frameRate: parseFrameRate(videoStream?.avg_frame_rate) ?? parseFrameRate(videoStream?.r_frame_rate),
+        videoCodec: videoStream?.codec_name ?? null,
+        rotation: videoStream ? parseRotation(videoStream) : null,
+        audioCodec: audioStream?.codec_name ?? null,
+        audioChannels: toNumberOrNull(audioStream?.channels),
+        audioSampleRate: toNumberOrNull(audioStream?.sample_rate),
+        bitrate: toNumberOrNull(metadata?.format?.bit_rate),
+      });
+    });
+  });
+}
+
+// Scene change score (0-1) above which a frame counts as the first frame of a new shot
+const SCENE_THRESHOLD = 0.3;
+
+// DETECT SCENES: Run FFmpeg's scene detection over the whole video and return the time of each shot change.
+// Frames are scaled down first - the score only needs the picture's overall content, and it is much faster.
+export function detectSceneChanges(inputPath: string, threshold: number = SCENE_THRESHOLD): Promise<number[]> {
+  return new Promise((resolve, reject) => {
+    const boundaries: number[] = [];
+
+    ffmpeg(inputPath)
+      .noAudio()
+      .videoFilters(['scale=320:-2', `select='gt(scene,${threshold})'`, 'showinfo'])
+      .outputOptions(['-f', 'null'])
+      .on('stderr', (stderrLine: string) => {
+        // showinfo prints one line per selected frame: "... n:  12 pts: 6144 pts_time:0.512 ..."
+        const match = stderrLine.match(/\bpts_time:(\d+(?:\.\d+)?)/);
+        if (match) {
+          boundaries.push(Number(match[1]));
+        }
+      })
+      .on('end', () => resolve(boundaries.sort((a, b) => a - b)))
+      .on('error', reject)
+      .save('/dev/null');
+  });
+}
+
+// Auto-detect and remove letterboxing from video
+async function detectAndRemoveLetterboxing(inputPath: string, startSeconds: number, duration: number, ctx?: JobContext): Promise<string> {
+  return new Promise((resolve, reject) => {
+    // Analyze a sample from the middle of the clip to detect black bars
+    const sampleTime = startSeconds + (duration / 2);
+    
+    console.log(`🔍 Analyzing letterboxing at ${sampleTime}s...`);
+    
+    trackCommand(ctx, ffmpeg(inputPath))
+      .inputOptions(['-ss', sampleTime.toString()])
+      .outputOptions([
+        '-vf', 'cropdetect=24:16:0',
+        '-f', 'null',
+        '-t', '1'  // Analyze just 1 second
+      ])
+      .on('stderr', (stderrLine) => {
+        // Look for cropdetect output: crop=w:h:x:y
+        const cropMatch = stderrLine.match(/crop=(\d+):(\d+):(\d+):(\d+)/);
+        if (cropMatch) {
+          const [, width, height, x, y] = cropMatch;
+          const cropFilter = `crop=${width}:${height}:${x}:${y}`;
+          console.log(`✅ Detected letterboxing, applying: ${cropFilter}`);
+          resolve(cropFilter);
+        }
+      })
+      .on('end', () => {
+        // If no crop detected, return empty string (no letterboxing)
+        console.log(`ℹ️ No letterboxing detected, using full frame`);
+        resolve('');
+      })
+      .on('error', (error) => {
+        if (ctx?.cancelled) {
+          reject(new JobCancelledError());
+          return;
+        }
+        console.warn(`⚠️ Letterbox detection failed, proceeding without crop:`, error.message);
+        resolve(''); // Fallback to no crop
+      })
+      .save('/dev/null');
+  });
+}
+
+// Horizontal crop position (0-1 of the slack) for a crop narrower than the source: a manual offset is used as-is, subject mode
+// tracks the clip, and anything that can't be analysed stays centered
+async function cropWindowPosition(
+  inputPath: string,
+  start: number,
+  duration: number,
+  targetAspect: number,
+  letterboxCrop: string,
+  framing?: ClipFraming,
+  ctx?: JobContext
+): Promise<string> {
+  if (!framing) return '0.5';
+  if (framing.cropOffset !== undefined) return offsetToPosition(framing.cropOffset).toFixed(4);
+  if (framing.mode !== 'subject') return '0.5';
+
+  // With black bars removed, the picture's shape is the crop's shape
+  const letterbox = letterboxCrop.match(/^crop=(\d+):(\d+)/);
+  const sourceAspect = letterbox ? Number(letterbox[1]) / Number(letterbox[2]) : framing.sourceAspect;
+  if (!sourceAspect) return '0.5';
+
+  const windowFraction = targetAspect / sourceAspect;
+  if (windowFraction >= 1) return '0.5';
+
+  try {
+    const shots = await analyzeFraming(inputPath, start, duration, windowFraction, framing.shotBoundaries, letterboxCrop ? [letterboxCrop] : [], ctx);
+    return `clip(${framingExpression(shots)},0,1)`;
+  } catch (error) {
+    throwIfCancelled(ctx);
+    console.warn(`⚠️ Subject reframing failed, using center crop:`, error instanceof Error ? error.message : error);
+    return '0.5';
+  }
+}
+
+// Uploaded background artwork for the image fill mode, named by the id handed back to the client
+export const BACKGROUNDS_DIR = path.join('uploads', 'backgrounds');
+
+// How a clip fills its preset when the shapes differ; the preset's own mode applies when none is given
+export interface ClipFit {
+  mode: FitMode;
+  // Hex color, for pad
+  padColor?: string;
+  // Background artwork, for image
+  backgroundImage?: string;
+}
+
+// Full frame scaled to sit inside the preset, on even dimensions so it can be centered exactly
+function fitInside(width: number, height: number): string {
+  return `scale=${width}:${height}:force_original_aspect_ratio=decrease:force_divisible_by=2`;
+}
+
+// Scaled to cover the preset and center-cropped, for backgrounds
+function coverFrame(width: number, height: number): string {
+  return `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height}`;
+}
+
+// Process clip into one of the aspect ratio presets, with subject-aware reframing for cropped shapes
+// and padded, blurred or image backgrounds for shapes that keep the full frame
+export function processClipWithAspectRatio(
+  inputPath: string,
+  startTime: string,
+  endTime: string,
+  outputPath: string,
+  quality: string = 'balanced',
+  aspectRatio: AspectRatio,
+  ctx?: JobContext,
+  clipIndex?: number,
+  totalClips?: number,
+  videoFade: boolean = false,
+  audioFade: boolean = false,
+  fadeDuration: number = 0.5,
+  frameRate: number = DEFAULT_FRAME_RATE,
+  framing?: ClipFraming,
+  fit?: ClipFit
+): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      throwIfCancelled(ctx);
+
+      // Calculate clip duration (millisecond / frame accurate; SMPTE timestamps resolve against the source frame rate)
+      const start = timestampToSeconds(startTime, frameRate);
+      const end = timestampToSeconds(endTime, frameRate);
+      const duration = end - start;
+      
+      // Build video filter chain based on aspect ratio
+      let videoFilters: string[] = [];
+      
+      const preset = ASPECT_RATIO_PRESETS[aspectRatio];
+      const { width, height } = preset;
+      const fitMode = fit?.mode ?? preset.fit;
+      const backgroundImage = fit?.backgroundImage;
+      if (fitMode === 'image' && !backgroundImage) {
+        throw new Error('Image background selected without an uploaded image');
+      }
+      // Every mode except keeping the source shape first detects and removes any letterboxing
+      const letterboxCrop = fitMode === 'source' ? '' : await detectAndRemoveLetterboxing(inputPath, start, duration, ctx);
+      const letterbox = letterboxCrop ? [letterboxCrop] : [];
+      
+      if (fitMode === 'crop') {
+        const cropPosition = await cropWindowPosition(inputPath, start, duration, presetAspect(preset), letterboxCrop, framing, ctx);
+        throwIfCancelled(ctx);
+        
+        videoFilters = [
+          ...letterbox, // Remove detected black bars
+          `scale=${width}:${height}:force_original_aspect_ratio=increase`, // Scale to fill the target shape
+          `crop=${width}:${height}:x='(iw-ow)*(${cropPosition})':y=(ih-oh)/2` // Crop to the exact shape over the subject
+        ];
+      } else if (fitMode === 'pad') {
+        videoFilters = [
+          ...letterbox,
+          fitInside(width, height),
+          `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=0x${(fit?.padColor ?? '#000000').replace('#', '')}`,
+          'setsar=1'
+        ];
+      } else if (fitMode === 'blur') {
+        // The clip over a blurred, darkened copy of itself scaled to cover the frame
+        videoFilters = [
+          ...letterbox,
+          `split=2[bg][fg];[bg]${coverFrame(width, height)},boxblur=20:2,eq=brightness=-0.08[blurred];[fg]${fitInside(width, height)}[front];[blurred][front]overlay=(W-w)/2:(H-h)/2`,
+          'setsar=1'
+        ];
+      } else if (fitMode === 'image') {
+        // The artwork is a second input, so the chain becomes a complex filter below
+        videoFilters = [
+          `[1:v]${coverFrame(width, height)},setsar=1[bg];[0:v]${[...letterbox, fitInside(width, height)].join(',')}[front];[bg][front]overlay=(W-w)/2:(H-h)/2:shortest=1`,
+          'setsar=1'
+        ];
+      } else {
+        // Keep the source shape, scaled to the preset height
+        videoFilters = [
+          `scale=-2:${height}`
+        ];
+      }
+      
+      const command = trackCommand(ctx, ffmpeg(inputPath));
+      
+      // Input-side seeking for frame-accurate processing
+      command.inputOptions(['-ss', start.toFixed(3)]);
+      if (fitMode === 'image' && backgroundImage) {
+        // A still looped at the clip's frame rate; the output duration ends it
+        command.input(backgroundImage).inputOptions(['-loop', '1', '-framerate', frameRate.toString()]);
+      }
+      
+      // Add fade effects if enabled
+      if (videoFade) {
+        videoFilters.push(`fade=t=in:st=0:d=${fadeDuration}:color=black`);
+        videoFilters.push(`fade=t=out:st=${duration - fadeDuration}:d=${fadeDuration}:color=black`);
+      }
+      
+      // Apply video filters
+      if (fitMode === 'image') {
+        command.complexFilter(`${videoFilters.join(',')}[vout]`).outputOptions(['-map', '[vout]', '-map', '0:a?']);
+      } else if (videoFilters.length > 0) {
+        command.videoFilters(videoFilters.join(','));
+      }
+      
+      // Audio processing
+      if (audioFade) {
+        command.audioFilters([
+          `afade=t=in:st=0:d=${fadeDuration}:curve=exp`,
+          `afade=t=out:st=${duration - fadeDuration}:d=${fadeDuration}:curve=exp`
+        ]);
+      }
+      
+      // Output settings based on quality
+      let crf = 20; // default balanced
+      if (quality === 'high') crf = 18;
+      if (quality === 'compressed') crf = 23;
+      
+      command
+        .outputOptions([
+          '-c:v', 'libx264',
+          '-crf', crf.toString(),
+          '-c:a', audioFade ? 'aac' : 'copy',
+          ...(audioFade ? ['-b:a', '128k'] : []),
+          '-preset', 'fast',
+          '-movflags', '+faststart'
+        ])
+        .duration(duration)
+        .on('start', (commandLine) => {
+          console.log(`🎬 Starting ${aspectRatio} clip processing: ${path.basename(outputPath)}`);
+          console.log(`🔧 FFmpeg command: ${commandLine}`);
+        })
+        .on('progress', (progress) => {
+          if (progress.percent && clipIndex && totalClips) {
+            const clipProgress = Math.round(progress.percent);
+            console.log(`⏳ ${aspectRatio} Progress: ${clipProgress}% (${clipIndex}/${totalClips})`);
+          }
+        })
+        .on('end', () => {
+          console.log(`✅ ${aspectRatio} clip completed: ${path.basename(outputPath)}`);
+          resolve();
+        })
+        .on('error', async (error) => {
+          console.error(`❌ ${aspectRatio} processing failed:`, error);
+          // For cropped shapes, try a simpler centered fallback (unless the job was cancelled)
+          if (fitMode === 'crop' && !ctx?.cancelled) {
+            console.log(`🔄 Attempting ${aspectRatio} fallback with letterbox removal...`);
+            try {
+              const letterboxCrop = await detectAndRemoveLetterboxing(inputPath, start, duration, ctx);
+              const fallbackCommand = trackCommand(ctx, ffmpeg(inputPath));
+              fallbackCommand.inputOptions(['-ss', start.toFixed(3)]);
+              
+              // Fallback filters with letterbox removal
+              const fallbackFilters = [];
+              if (letterboxCrop) {
+                fallbackFilters.push(letterboxCrop);
+              }
+              fallbackFilters.push(`scale=${width * 2}:${height * 2}:force_original_aspect_ratio=increase`);
+              fallbackFilters.push(`crop=${width}:${height}:(iw-${width})/2:(ih-${height})/2`);
+              
+              fallbackCommand
+                .videoFilters(fallbackFilters)
+                .outputOptions([
+                  '-c:v', 'libx264',
+                  '-crf', '20',
+                  '-c:a', 'copy',
+                  '-preset', 'fast',
+                  '-movflags', '+faststart'
+                ])
+                .duration(duration)
+                .on('start', () => console.log(`🔄 Fallback ${aspectRatio} processing started`))
+                .on('end', () => {
+                  console.log(`✅ Fallback ${aspectRatio} clip completed: ${path.basename(outputPath)}`);
+                  resolve();
+                })
+                .on('error', (fallbackError) => {
+                  console.error(`❌ Fallback ${aspectRatio} processing also failed:`, fallbackError);
+                  reject(fallbackError);
+                })
+                .save(outputPath);
+            } catch (fallbackError) {
+              reject(fallbackError);
+            }
+          } else {
+            reject(error);
+          }
+        })
+        .save(outputPath);
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+// A section of the source picked by one of the auto-generators
+export interface AutoRange {
+  start: number;
+  end: number;
+  startTime: string;
+  endTime: string;
+}
+
+export interface AutoRanges {
+  seed: number;
+  gifs: AutoRange[];
+  canvas: AutoRange[];
+}
+
+const CANVAS_COUNT = 5;
+
+// Source seconds one Canvas consumes: half the loop for a boomerang, plus the blend for a crossfade
+export function canvasSegmentSeconds(canvas: CanvasOptions): number {
+  switch (canvas.mode) {
+    case 'boomerang':
+      return canvas.duration / 2;
+    case 'crossfade':
+      return canvas.duration + canvas.crossfadeDuration;
+    case 'cut':
+      return canvas.duration;
+  }
+}
+
+function toAutoRange(start: number, length: number): AutoRange {
+  return { start, end: start + length, startTime: secondsToTimestamp(start), endTime: secondsToTimestamp(start + length) };
+}
+
+// Up to `count` non-overlapping sections of the GIF duration
+export function pickGifRanges(durationSeconds: number, random: RandomSource, count: number, gifDuration: number): AutoRange[] {
+  const ranges: AutoRange[] = [];
+  const numGifs = Math.min(count, Math.floor(durationSeconds / gifDuration));
+
+  for (let i = 0; i < numGifs; i++) {
+    // A slot that keeps overlapping after 50 tries is left out, so short videos get fewer GIFs
+    for (let attempts = 0; attempts < 50; attempts++) {
+      const start = random() * (durationSeconds - gifDuration);
+      const end = start + gifDuration;
+      if (!ranges.some(range => start < range.end && end > range.start)) {
+        ranges.push(toAutoRange(start, gifDuration));
+        break;
+      }
+    }
+  }
+  return ranges;
+}
+
+// One GIF per timestamp, from its start and no longer than the GIF duration
+function gifRangesFromTimestamps(gif: GifOptions, frameRate: number): AutoRange[] {
+  return gif.ranges.slice(0, gif.count).map(({ startTime, endTime }) => {
+    const start = timestampToSeconds(startTime, frameRate);
+    return toAutoRange(start, Math.min(gif.duration, timestampToSeconds(endTime, frameRate) - start));
+  });
+}
+
+// 5 segment starts at least 2 seconds apart
+export function pickCanvasRanges(durationSeconds: number, random: RandomSource, segmentSeconds: number): AutoRange[] {
+  const ranges: AutoRange[] = [];
+  const maxStartTime = Math.max(0, durationSeconds - segmentSeconds);
+
+  for (let attempts = 0; ranges.length < CANVAS_COUNT && attempts < 500; attempts++) {
+    const start = random() * maxStartTime;
+    if (!ranges.some(range => Math.abs(range.start - start) < 2)) {
+      ranges.push(toAutoRange(start, segmentSeconds));
+    }
+  }
+  return ranges;
+}
+
+// One Canvas per timestamp, from its start; ranges shorter than the segment make shorter loops
+function canvasRangesFromTimestamps(canvas: CanvasOptions, frameRate: number): AutoRange[] {
+  const segmentSeconds = canvasSegmentSeconds(canvas);
+  return canvas.ranges.map(({ startTime, endTime }) => {
+    const start = timestampToSeconds(startTime, frameRate);
+    return toAutoRange(start, Math.min(segmentSeconds, timestampToSeconds(endTime, frameRate) - start));
+  });
+}
+
+// Probed duration, else the upload-time estimate, else a minute
+export function videoDurationSeconds(video: Pick<Video, 'duration' | 'durationSeconds'>): number {
+  return video.durationSeconds ?? (video.duration ? timestampToSeconds(video.duration) : 60);
+}
+
+// Width / height as the picture is displayed, with phone rotation applied; undefined until probed
+export function displayAspect(video: Pick<Video, 'width' | 'height' | 'rotation'>): number | undefined {
+  if (!video.width || !video.height) return undefined;
+  return video.rotation === 90 || video.rotation === 270 ? video.height / video.width : video.width / video.height;
+}
+
+// Pick the GIF and Canvas sections for a video from one seed; the same seed always gives the same picks
+export function pickAutoRanges(video: Pick<Video, 'duration' | 'durationSeconds' | 'frameRate'>, seed: number, gif: GifOptions, canvas: CanvasOptions): AutoRanges {
+  const durationSeconds = videoDurationSeconds(video);
+  const frameRate = video.frameRate ?? DEFAULT_FRAME_RATE;
+  // Separate streams so toggling one export doesn't reshuffle the other
+  return {
+    seed,
+    gifs: gif.source === 'timestamps'
+      ? gifRangesFromTimestamps(gif, frameRate)
+      : pickGifRanges(durationSeconds, createRandom(seed), gif.count, gif.duration),
+    canvas: canvas.source === 'timestamps'
+      ? canvasRangesFromTimestamps(canvas, frameRate)
+      : pickCanvasRanges(durationSeconds, createRandom(seed ^ 0x5bd1e995), canvasSegmentSeconds(canvas)),
+  };
+}
+
+// Settings one GIF was encoded with
+export interface GifRenderSettings {
+  fps: number;
+  width: number;
+  colors: number;
+}
+
+// What each GIF ended up as, written next to the GIFs so oversize ones can be spotted
+export interface GifReportEntry extends GifRenderSettings {
+  file: string;
+  startTime: string;
+  endTime: string;
+  dither: GifOptions['dither'];
+  bytes: number;
+  maxBytes?: number;
+  attempts: number;
+  withinBudget: boolean;
+}
+
+export interface GifExportResult {
+  paths: string[];
+  report: GifReportEntry[];
+}
+
+// Floors for the size budget; below these GIFs stop being useful, so they are left over budget instead
+const GIF_MIN_FPS = 5;
+const GIF_MIN_WIDTH = 160;
+const GIF_MIN_COLORS = 32;
+const GIF_MAX_ATTEMPTS = 12;
+
+// Next smaller settings to try, cutting colors, then fps, then width in turn; null once everything is at its floor
+export function nextGifSettings(settings: GifRenderSettings, attempt: number): GifRenderSettings | null {
+  const steps: Array<() => GifRenderSettings | null> = [
+    () => settings.colors > GIF_MIN_COLORS ? { ...settings, colors: Math.max(GIF_MIN_COLORS, Math.floor(settings.colors / 2)) } : null,
+    () => settings.fps > GIF_MIN_FPS ? { ...settings, fps: Math.max(GIF_MIN_FPS, Math.round(settings.fps * 0.75)) } : null,
+    // Even widths keep the scaled height from rounding differently between passes
+    () => settings.width > GIF_MIN_WIDTH ? { ...settings, width: Math.max(GIF_MIN_WIDTH, Math.round(settings.width * 0.8 / 2) * 2) } : null,
+  ];
+  for (let i = 0; i < steps.length; i++) {
+    const next = steps[(attempt + i) % steps.length]();
+    if (next) return next;
+  }
+  return null;
+}
+
+// GIFs render two FFmpeg passes each and up to 30 can be picked, so only a few run at once
+const GIF_CONCURRENCY = Math.max(1, Math.min(4, os.availableParallelism()));
+
+// Promise.allSettled over `items`, starting a task only while fewer than `limit` are in flight
+export async function settleWithLimit<T, R>(items: T[], limit: number, task: (item: T, index: number) => Promise<R>): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let nextIndex = 0;
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, runNext));
+  return results;
+}
+
+// Two-pass palette encode of one section; resolves with the file size in bytes
+function renderGif(inputPath: string, outputPath: string, start: number, duration: number, settings: GifRenderSettings, options: GifOptions, ctx?: JobContext): Promise<number> {
+  return new Promise((resolve, reject) => {
+    // Height follows the source so non-4:3 footage isn't squashed
+    const scaleFilter = `fps=${settings.fps},scale=${settings.width}:-1:flags=lanczos`;
+    const ditherOptions = options.dither === 'bayer' ? 'dither=bayer:bayer_scale=5' : `dither=${options.dither}`;
+    const palettePath = outputPath + '.palette.png';
+    // Both passes see the same crossfaded frames so the palette covers the blend
+    const fade = fitCrossfade(duration, options.crossfadeDuration);
+    const source = fade > 0 ? `${crossfadeLoopFilter('[0:v]', duration, fade, '[looped]')};[looped]` : '[0:v]';
+
+    // Generate palette first
+    trackCommand(ctx, ffmpeg(inputPath))
+      .inputOptions(['-ss', start.toString()])
+      .outputOptions([
+        '-t', duration.toFixed(3),
+        '-filter_complex', `${source}${scaleFilter},palettegen=max_colors=${settings.colors}:stats_mode=diff`,
+        '-y'
+      ])
+      .save(palettePath)
+      .on('end', () => {
+        if (ctx?.cancelled) {
+          reject(new JobCancelledError());
+          return;
+        }
+
+        // Second pass: create GIF using the generated palette
+        trackCommand(ctx, ffmpeg(inputPath))
+          .inputOptions(['-ss', start.toString()])
+          .addInput(palettePath)
+          .outputOptions([
+            '-t', duration.toFixed(3),
+            '-filter_complex', `${source}${scaleFilter}[x];[x][1:v]paletteuse=${ditherOptions}:diff_mode=rectangle`,
+            '-loop', String(options.loop),
+            '-y'
+          ])
+          .save(outputPath)
+          .on('end', async () => {
+            try {
+              // Clean up palette file
+              const fs = await import('fs');
+              await fs.promises.unlink(palettePath).catch(() => {});
+              const { size } = await fs.promises.stat(outputPath);
+              resolve(size);
+            } catch (error) {
+              reject(error);
+            }
+          })
+          .on('error', (error) => {
+            console.error(`❌ GIF palette application failed for ${path.basename(outputPath)}:`, error);
+            reject(error);
+          });
+      })
+      .on('error', (error) => {
+        console.error(`❌ GIF palette generation failed for ${path.basename(outputPath)}:`, error);
+        reject(error);
+      });
+  });
+}
+
+// Stage 2: GIF Export Function - Render one GIF per picked section, re-encoding smaller until each fits maxBytes
+export async function generateGifExport(inputPath: string, baseName: string, outputDir: string, ranges: AutoRange[], options: GifOptions, ctx?: JobContext): Promise<GifExportResult> {
+  console.log(`🎬 Generating ${ranges.length} GIFs at ${options.width}px wide, ${options.fps}fps with palette optimization...`);
+
+  const numGifs = ranges.length;
+  const results = await settleWithLimit(ranges, GIF_CONCURRENCY, async (picked, i): Promise<GifReportEntry> => {
+    throwIfCancelled(ctx);
+    const gifNumber = String(i + 1).padStart(2, '0');
+    const gifOutputPath = path.join(outputDir, `${baseName}-gif-${gifNumber}.gif`);
+    const range = options.matchFrames ? await matchLoopRange(inputPath, picked, 0, ctx) : picked;
+    const duration = range.end - range.start;
+
+    let settings: GifRenderSettings = { fps: options.fps, width: options.width, colors: 256 };
+    let bytes = await renderGif(inputPath, gifOutputPath, range.start, duration, settings, options, ctx);
+    let attempts = 1;
+
+    while (options.maxBytes && bytes > options.maxBytes && attempts < GIF_MAX_ATTEMPTS) {
+      throwIfCancelled(ctx);
+      const next = nextGifSettings(settings, attempts - 1);
+      if (!next) break;
+
+      console.log(`📉 GIF ${gifNumber} is ${bytes} bytes, over the ${options.maxBytes} byte target; retrying at ${next.width}px, ${next.fps}fps, ${next.colors} colors`);
+      settings = next;
+      bytes = await renderGif(inputPath, gifOutputPath, range.start, duration, settings, options, ctx);
+      attempts++;
+    }
+
+    const withinBudget = !options.maxBytes || bytes <= options.maxBytes;
+    console.log(`${withinBudget ? '✅' : '⚠️'} GIF ${i + 1}/${numGifs} generated from ${range.start.toFixed(1)}s: ${bytes} bytes`);
+
+    // Update progress for each completed GIF (don't update currentClip as it's for cutdowns only)
+    ctx?.itemCompleted();
+
+    return {
+      file: path.basename(gifOutputPath),
+      startTime: range.startTime,
+      endTime: range.endTime,
+      ...settings,
+      dither: options.dither,
+      bytes,
+      maxBytes: options.maxBytes,
+      attempts,
+      withinBudget,
+    };
+  });
+
+  const report: GifReportEntry[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      report.push(result.value);
+    } else {
+      console.error(`GIF ${index + 1} failed:`, result.reason);
+    }
+  });
+
+  console.log(`✅ GIF generation complete: ${report.length}/${numGifs} successful`);
+  return { paths: report.map(entry => path.join(outputDir, entry.file)), report };
+}
+
+const LOOP_EXTENSIONS: Record<Exclude<LoopFormat, 'gif'>, string> = {
+  webp: 'webp',
+  apng: 'apng',
+  mp4: 'mp4',
+  webm: 'webm',
+};
+
+// Encoder settings per looping format; loop counts are FFmpeg GIF-style (0 forever, -1 once, N repeats)
+function loopOutputOptions(format: Exclude<LoopFormat, 'gif'>, loop: number): string[] {
+  // WebP and APNG count total plays rather than repeats
+  const plays = loop === 0 ? 0 : loop === -1 ? 1 : loop + 1;
+  switch (format) {
+    case 'webp':
+      return ['-c:v', 'libwebp', '-lossless', '0', '-q:v', '70', '-preset', 'default', '-loop', String(plays)];
+    case 'apng':
+      return ['-f', 'apng', '-plays', String(plays)];
+    case 'mp4':
+      // Players loop these themselves; faststart lets them begin before the download finishes
+      return ['-c:v', 'libx264', '-preset', 'medium', '-crf', '23', '-pix_fmt', 'yuv420p', '-movflags', '+faststart'];
+    case 'webm':
+      return ['-c:v', 'libvpx-vp9', '-crf', '33', '-b:v', '0', '-pix_fmt', 'yuv420p'];
+  }
+}
+
+// Stage 2: Looping clips in the GIF alternatives, from the same sections and fps/width as the GIFs
+export async function generateLoopExport(inputPath: string, baseName: string, outputDir: string, ranges: AutoRange[], format: Exclude<LoopFormat, 'gif'>, options: GifOptions, ctx?: JobContext): Promise<string[]> {
+  console.log(`🔁 Generating ${ranges.length} ${format.toUpperCase()} loops at ${options.width}px wide, ${options.fps}fps...`);
+
+  // Video codecs need even dimensions; the image formats keep the exact aspect
+  const scaleFilter = `fps=${options.fps},scale=${options.width}:${format === 'mp4' || format === 'webm' ? -2 : -1}:flags=lanczos`;
+
+  const results = await Promise.allSettled(ranges.map((range, i) => new Promise<string>((resolve, reject) => {
+    const loopNumber = String(i + 1).padStart(2, '0');
+    const outputPath = path.join(outputDir, `${baseName}-loop-${loopNumber}.${LOOP_EXTENSIONS[format]}`);
+
+    trackCommand(ctx, ffmpeg(inputPath))
+      .inputOptions(['-ss', range.start.toString()])
+      .outputOptions([
+        '-t', (range.end - range.start).toFixed(3),
+        '-vf', scaleFilter,
+        '-an',
+        ...loopOutputOptions(format, options.loop),
+        '-y'
+      ])
+      .save(outputPath)
+      .on('end', () => {
+        console.log(`✅ ${format.toUpperCase()} loop ${i + 1}/${ranges.length} generated from ${range.start.toFixed(1)}s`);
+        ctx?.itemCompleted();
+        resolve(outputPath);
+      })
+      .on('error', (error: Error) => {
+        console.error(`❌ ${format.toUpperCase()} loop ${i + 1} failed:`, error);
+        reject(error);
+      });
+  })));
+
+  const paths = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+  console.log(`✅ ${format.toUpperCase()} loop generation complete: ${paths.length}/${ranges.length} successful`);
+  return paths;
+}
+
+// Evenly spaced still times, skipping the very start and end
+export function evenThumbnailTimes(durationSeconds: number, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => (i + 1) * (durationSeconds / (count + 1)));
+}
+
+// Output size per preset; fixed-size presets fill the frame and crop the overflow from the center
+export const THUMBNAIL_PRESETS: Record<ThumbnailPreset, { width: number; height: number; crop: boolean; suffix: string }> = {
+  original: { width: 1920, height: 1080, crop: false, suffix: '' },
+  // YouTube wants exactly 1280x720, so non-16:9 sources are cropped rather than letterboxed
+  youtube: { width: 1280, height: 720, crop: true, suffix: '-youtube' },
+  square: { width: 1080, height: 1080, crop: true, suffix: '-square' },
+  vertical: { width: 1080, height: 1920, crop: true, suffix: '-vertical' },
+  portrait: { width: 1080, height: 1350, crop: true, suffix: '-4x5' },
+};
+
+function thumbnailScaleFilter(preset: ThumbnailPreset): string {
+  const { width, height, crop } = THUMBNAIL_PRESETS[preset];
+  return crop
+    ? `scale=${width}:${height}:force_original_aspect_ratio=increase:flags=lanczos,crop=${width}:${height}`
+    : `scale=${width}:${height}:force_original_aspect_ratio=decrease:flags=lanczos`;
+}
+
+// Encoder settings for a still; quality is 1-100 and mapped onto each encoder's own scale
+function thumbnailEncoderOptions(format: ThumbnailFormat, quality: number): string[] {
+  switch (format) {
+    case 'jpg':
+      // MJPEG qscale runs 2 (best) to 31
+      return ['-f', 'image2', '-q:v', String(Math.round(2 + (100 - quality) * 29 / 99))];
+    case 'png':
+      return ['-f', 'image2', '-c:v', 'png'];
+    case 'webp':
+      return ['-f', 'image2', '-c:v', 'libwebp', '-quality', String(quality)];
+    case 'avif':
+      // libaom CRF runs 0 (best) to 63
+      return ['-c:v', 'libaom-av1', '-still-picture', '1', '-crf', String(Math.round((100 - quality) * 63 / 99)), '-b:v', '0'];
+  }
+}
+
+// Stage 2: Thumbnail Export Function - One high-quality still per time, preset and format
+export async function generateThumbnailExports(inputPath: string, baseName: string, outputDir: string, times: number[], options: ThumbnailOptions, ctx?: JobContext): Promise<string[]> {
+  const variants = options.presets.flatMap(preset => options.formats.map(format => ({ preset, format })));
+  console.log(`📸 Generating ${times.length} thumbnail stills in ${variants.length} variant(s)...`);
+
+  // One FFmpeg run per frame writes every variant, so the source is only seeked and decoded once
+  const results = await Promise.allSettled(times.map((timePosition, i) => new Promise<string[]>((resolve, reject) => {
+    const thumbnailNumber = String(i + 1).padStart(2, '0');
+    const command = trackCommand(ctx, ffmpeg(inputPath)).seekInput(timePosition);
+    const outputPaths: string[] = [];
+
+    for (const { preset, format } of variants) {
+      const outputPath = path.join(outputDir, `${baseName}-thumb-${thumbnailNumber}${THUMBNAIL_PRESETS[preset].suffix}.${format}`);
+      outputPaths.push(outputPath);
+      command
+        .output(outputPath)
+        .outputOptions([
+          '-frames:v', '1',
+          '-vf', thumbnailScaleFilter(preset),
+          ...thumbnailEncoderOptions(format, options.quality),
+          '-y'
+        ]);
+    }
+
+    command
+      .on('end', () => {
+        console.log(`✅ Thumbnail ${i + 1}/${times.length} generated at ${timePosition.toFixed(1)}s`);
+
+        // Update progress for each variant written
+        outputPaths.forEach(() => ctx?.itemCompleted());
+
+        resolve(outputPaths);
+      })
+      .on('error', (error: Error) => {
+        console.error(`❌ Thumbnail ${i + 1} failed:`, error);
+        reject(error);
+      })
+      .run();
+  })));
+
+  const thumbnailPaths = results.flatMap((result, index) => {
+    if (result.status === 'fulfilled') return result.value;
+    console.error(`Thumbnail ${index + 1} failed:`, result.reason);
+    return [];
+  });
+
+  console.log(`✅ Thumbnail generation complete: ${thumbnailPaths.length}/${times.length * variants.length} successful`);
+  return thumbnailPaths;
+}
+
+// Move a section onto its best-matching loop frames, keeping `extraSeconds` after the loop for a crossfade.
+// Sections that can't be searched are used as picked; a search stopped by a cancel ends the job instead.
+async function matchLoopRange(inputPath: string, range: AutoRange, extraSeconds: number, ctx: JobContext | undefined, minSeconds: number = 1): Promise<AutoRange> {
+  const loopSeconds = range.end - range.start - extraSeconds;
+  try {
+    const point = await findLoopPoint(inputPath, range.start, Math.max(minSeconds, loopSeconds * 0.75), loopSeconds, ctx);
+    if (point) {
+      console.log(`🔁 Loop matched at ${point.start.toFixed(2)}s-${point.end.toFixed(2)}s (difference ${point.difference.toFixed(1)})`);
+      return toAutoRange(point.start, point.end - point.start + extraSeconds);
+    }
+  } catch (error) {
+    throwIfCancelled(ctx);
+    console.warn(`⚠️ Loop matching failed at ${range.startTime}, using the picked section:`, error);
+  }
+  return range;
+}
+
+function canvasCrossfade(canvas: CanvasOptions, segmentSeconds: number): number {
+  return Math.min(canvas.crossfadeDuration, segmentSeconds / 3);
+}
+
+// Filter graph for one Canvas in the chosen mode, vertical and cropped to fill 1080x1920
+function canvasFilterGraph(canvas: CanvasOptions, segmentSeconds: number): string {
+  const vertical = '[0:v]scale=1080:1920:force_original_aspect_ratio=increase,crop=1080:1920,setsar=1';
+  switch (canvas.mode) {
+    case 'boomerang':
+      return `${vertical},split[forward][backward];[backward]reverse[reversed];[forward][reversed]concat=n=2:v=1:a=0[canvas]`;
+    case 'crossfade': {
+      // Short user ranges still loop, with the blend shrunk to fit
+      const fade = canvasCrossfade(canvas, segmentSeconds);
+      return `${vertical}[vertical];${crossfadeLoopFilter('[vertical]', segmentSeconds - fade, fade, '[canvas]')}`;
+    }
+    case 'cut':
+      return `${vertical}[canvas]`;
+  }
+}
+
+// Render one Canvas loop from its source segment
+function renderCanvas(videoPath: string, outputBaseName: string, outputDir: string, segment: AutoRange, index: number, totalCount: number, canvas: CanvasOptions, ctx?: JobContext): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const canvasNumber = String(index + 1).padStart(2, '0');
+    const outputPath = path.join(outputDir, `${outputBaseName}-canvas-${canvasNumber}.mp4`);
+    const segmentSeconds = segment.end - segment.start;
+
+    console.log(`🎬 Canvas ${canvasNumber}/${String(totalCount).padStart(2, '0')}: ${canvas.mode} loop from ${segment.startTime}`);
+
+    // Reading only the segment keeps reverse's frame buffer small
+    trackCommand(ctx, ffmpeg(videoPath))
+      .inputOptions(['-ss', segment.start.toFixed(3), '-t', segmentSeconds.toFixed(3)])
+      .outputOptions([
+        '-filter_complex', canvasFilterGraph(canvas, segmentSeconds),
+        '-map', '[canvas]',
+        '-c:v', 'libx264',
+        '-preset', 'fast',
+        '-crf', '20',
+        '-pix_fmt', 'yuv420p',
+        '-movflags', '+faststart', // Optimize for streaming
+        '-an',                     // Canvas must be silent
+        '-y'
+      ])
+      .on('end', () => {
+        console.log(`✅ Canvas ${canvasNumber}/${String(totalCount).padStart(2, '0')} loop completed`);
+
+        // Update progress for each completed Canvas
+        ctx?.itemCompleted();
+        resolve(outputPath);
+      })
+      .on('error', (error: Error) => {
+        console.error(`❌ Canvas ${canvasNumber} failed:`, error);
+        reject(error);
+      })
+      .save(outputPath);
+  });
+}
+
+// Generate Spotify Canvas exports (vertical 1080x1920 loops of 3-8 seconds)
+export async function generateCanvasExports(videoPath: string, outputBaseName: string, outputDir: string, ranges: AutoRange[], canvas: CanvasOptions, ctx?: JobContext): Promise<string[]> {
+  console.log(`🎵 Generating ${ranges.length} Spotify Canvas ${canvas.mode} loops (1080x1920, ${canvas.duration}s each)...`);
+
+  const results = await Promise.allSettled(ranges.map(async (picked, index) => {
+    // Boomerangs already end where they start, so only straight loops are matched
+    const segment = canvas.matchFrames && canvas.mode !== 'boomerang'
+      ? await matchLoopRange(videoPath, picked, canvas.mode === 'crossfade' ? canvasCrossfade(canvas, picked.end - picked.start) : 0, ctx, CANVAS_SPEC.minSeconds)
+      : picked;
+    return renderCanvas(videoPath, outputBaseName, outputDir, segment, index, ranges.length, canvas, ctx);
+  }));
+
+  const canvasPaths = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+  console.log(`✅ Canvas generation complete: ${canvasPaths.length}/${ranges.length} successful`);
+  return canvasPaths;
+}
@@ -0,0 +1,34 @@
+/*
+ * © 2025 Full Digital LLC. All Rights Reserved.
+ * CUTMV - Music Video Cut-Down Tool
+ * Proprietary software - unauthorized use prohibited
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createRandom, generateSeed, MAX_SEED } from "./random";
+
+const draw = (seed: number, count = 50) => Array.from({ length: count }, createRandom(seed));
+
+test("the same seed always draws the same sequence", () => {
+  assert.deepEqual(draw(1234), draw(1234));
+  assert.notDeepEqual(draw(1234), draw(1235));
+});
+
+test("draws are floats in [0, 1)", () => {
+  for (const value of draw(MAX_SEED, 1000)) {
+    assert.ok(value >= 0 && value < 1, `${value} is out of range`);
+  }
+});
+
+test("seeds are taken as unsigned 32-bit integers", () => {
+  assert.deepEqual(draw(-1), draw(MAX_SEED));
+  assert.deepEqual(draw(2 ** 32 + 7), draw(7));
+});
+
+test("generated seeds fit the range the API accepts", () => {
+  for (let i = 0; i < 100; i++) {
+    const seed = generateSeed();
+    assert.ok(Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED);
+  }
+});
@@ -0,0 +1,30 @@
+/*
+ * © 2025 Full Digital LLC. All Rights Reserved.
+ * CUTMV - Music Video Cut-Down Tool
+ * Proprietary software - unauthorized use prohibited
+ */
+
+// Seeded random numbers for the auto-generators, so a set of picks can be reproduced from its seed alone.
+
+import { randomInt } from "crypto";
+
+// Returns floats in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+export const MAX_SEED = 0xffffffff;
+
+export function generateSeed(): number {
+  return randomInt(0, MAX_SEED);
+}
+
+// mulberry32: tiny, fast and well distributed enough for picking ranges
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
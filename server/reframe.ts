@@ -0,0 +1,196 @@
+/*
+ * © 2025 Full Digital LLC. All Rights Reserved.
+ * CUTMV - Music Video Cut-Down Tool
+ * Proprietary software - unauthorized use prohibited
+ */
+
+// Subject-aware reframing for crops narrower than the source (9:16 from 16:9 and the like). Each sampled frame
+// is scored column by column for motion, detail and face-like regions, the crop window is placed over the most
+// salient stretch, and the positions are smoothed within each shot so the window only jumps on a cut.
+// Everything runs on the small luma frames from thumbnails.ts, so it needs no GPU or model.
+
+import { extractLumaFrames, SAMPLE_WIDTH, SAMPLE_HEIGHT, type CandidateFrame } from "./thumbnails";
+import type { JobContext } from "./jobContext";
+
+export type ReframeMode = 'subject' | 'center';
+
+// How a crop is placed for one clip; a manual cropOffset wins over subject tracking
+export interface ClipFraming {
+  mode: ReframeMode;
+  cropOffset?: number;
+  // Shot change times in the source, from scene detection
+  shotBoundaries?: number[];
+  // Source width / height as displayed (after rotation)
+  sourceAspect?: number;
+}
+
+// Window position at a clip-relative time: 0 is the left edge of the source, 1 the right
+export interface FramingKeyframe {
+  time: number;
+  position: number;
+}
+
+export interface FramingShot {
+  start: number;
+  keyframes: FramingKeyframe[];
+}
+
+const REFRAME_RATE = 4;
+const SMOOTHING_SECONDS = 1.5;
+// Share of the available pan the window may travel per second, so tracking reads as a camera move, not a jitter
+const MAX_PAN_PER_SECOND = 0.25;
+// Keyframes closer than this to the straight line between their neighbours are dropped
+const SIMPLIFY_TOLERANCE = 0.02;
+// How much a window is held back from the edges when saliency is spread evenly
+const CENTER_BIAS = 0.1;
+
+// Manual offset (-1 to 1) as a window position (0 to 1)
+export function offsetToPosition(cropOffset: number): number {
+  return (Math.max(-1, Math.min(1, cropOffset)) + 1) / 2;
+}
+
+// Per-column saliency: motion against the previous sample counts double, edges add detail, and mid-tones in the
+// upper part of the frame - where performers' faces usually are - are weighted up
+export function columnSaliency(previous: Uint8Array | null, frame: Uint8Array): Float64Array {
+  const columns = new Float64Array(SAMPLE_WIDTH);
+  for (let y = 1; y < SAMPLE_HEIGHT - 1; y++) {
+    const rowWeight = y < SAMPLE_HEIGHT * 0.6 ? 1.3 : 0.7;
+    for (let x = 1; x < SAMPLE_WIDTH - 1; x++) {
+      const i = y * SAMPLE_WIDTH + x;
+      const value = frame[i];
+      const motion = previous ? Math.abs(value - previous[i]) : 0;
+      const detail = Math.abs(frame[i + 1] - frame[i - 1]) + Math.abs(frame[i + SAMPLE_WIDTH] - frame[i - SAMPLE_WIDTH]);
+      const tone = value >= 70 && value <= 200 ? 1 : 0.4;
+      columns[x] += (2 * motion + detail) * tone * rowWeight;
+    }
+  }
+  return columns;
+}
+
+// Position (0-1) of the window of `windowFraction` width that holds the most saliency, nudged toward the center
+export function bestWindowPosition(saliency: Float64Array, windowFraction: number): number {
+  const width = saliency.length;
+  const windowColumns = Math.max(1, Math.round(windowFraction * width));
+  if (windowColumns >= width) return 0.5;
+
+  const total = saliency.reduce((sum, value) => sum + value, 0);
+  if (total <= 0) return 0.5;
+
+  let windowSum = 0;
+  for (let x = 0; x < windowColumns; x++) windowSum += saliency[x];
+
+  let best = 0.5;
+  let bestScore = -Infinity;
+  for (let x0 = 0; x0 + windowColumns <= width; x0++) {
+    if (x0 > 0) {
+      windowSum += saliency[x0 + windowColumns - 1] - saliency[x0 - 1];
+    }
+    const position = x0 / (width - windowColumns);
+    const score = windowSum / total - CENTER_BIAS * Math.abs(position - 0.5);
+    if (score > bestScore) {
+      bestScore = score;
+      best = position;
+    }
+  }
+  return best;
+}
+
+// Drop keyframes that sit on the line between their neighbours (Ramer-Douglas-Peucker)
+function simplifyKeyframes(keyframes: FramingKeyframe[]): FramingKeyframe[] {
+  if (keyframes.length <= 2) return keyframes;
+
+  const first = keyframes[0];
+  const last = keyframes[keyframes.length - 1];
+  let worst = 0;
+  let worstIndex = -1;
+  for (let i = 1; i < keyframes.length - 1; i++) {
+    const { time, position } = keyframes[i];
+    const expected = first.position + (last.position - first.position) * (time - first.time) / (last.time - first.time);
+    const deviation = Math.abs(position - expected);
+    if (deviation > worst) {
+      worst = deviation;
+      worstIndex = i;
+    }
+  }
+
+  if (worst <= SIMPLIFY_TOLERANCE) return [first, last];
+  return [
+    ...simplifyKeyframes(keyframes.slice(0, worstIndex + 1)).slice(0, -1),
+    ...simplifyKeyframes(keyframes.slice(worstIndex)),
+  ];
+}
+
+// Smoothed, speed-limited window path per shot; frame times and shot starts are clip-relative
+export function planFramingPath(frames: CandidateFrame[], windowFraction: number, shotStarts: number[]): FramingShot[] {
+  const starts = Array.from(new Set([0, ...shotStarts.filter(start => start > 0)])).sort((a, b) => a - b);
+  const raw = frames.map((frame, index) => ({
+    time: frame.time,
+    position: bestWindowPosition(columnSaliency(index > 0 ? frames[index - 1].pixels : null, frame.pixels), windowFraction),
+  }));
+
+  let carried = 0.5;
+  return starts.map((start, shotIndex) => {
+    const end = starts[shotIndex + 1] ?? Infinity;
+    const samples = raw.filter(sample => sample.time >= start && sample.time < end);
+    if (samples.length === 0) {
+      // Shots shorter than one sample keep the previous framing
+      return { start, keyframes: [{ time: start, position: carried }] };
+    }
+
+    const smoothed = samples.map(sample => {
+      const near = samples.filter(other => Math.abs(other.time - sample.time) <= SMOOTHING_SECONDS / 2);
+      return { time: sample.time, position: near.reduce((sum, other) => sum + other.position, 0) / near.length };
+    });
+
+    const keyframes: FramingKeyframe[] = [{ time: start, position: smoothed[0].position }];
+    for (const sample of smoothed.slice(1)) {
+      const previous = keyframes[keyframes.length - 1];
+      const maxStep = MAX_PAN_PER_SECOND * (sample.time - previous.time);
+      keyframes.push({
+        time: sample.time,
+        position: previous.position + Math.max(-maxStep, Math.min(maxStep, sample.position - previous.position)),
+      });
+    }
+
+    carried = keyframes[keyframes.length - 1].position;
+    return { start, keyframes: simplifyKeyframes(keyframes) };
+  });
+}
+
+// FFmpeg expression for the window position at time t: piecewise linear within a shot, switching at each cut
+export function framingExpression(shots: FramingShot[]): string {
+  const shotExpression = ({ keyframes }: FramingShot): string => {
+    let expression = keyframes[keyframes.length - 1].position.toFixed(4);
+    for (let i = keyframes.length - 2; i >= 0; i--) {
+      const from = keyframes[i];
+      const to = keyframes[i + 1];
+      const slope = (to.position - from.position) / (to.time - from.time);
+      expression = `if(lt(t,${to.time.toFixed(3)}),${from.position.toFixed(4)}+${slope.toFixed(5)}*(t-${from.time.toFixed(3)}),${expression})`;
+    }
+    return expression;
+  };
+
+  let expression = shotExpression(shots[shots.length - 1]);
+  for (let i = shots.length - 2; i >= 0; i--) {
+    expression = `if(lt(t,${shots[i + 1].start.toFixed(3)}),${shotExpression(shots[i])},${expression})`;
+  }
+  return expression;
+}
+
+// Sample a clip and plan its crop window; `filters` run first (e.g. letterbox removal) so positions match the render
+export async function analyzeFraming(
+  inputPath: string,
+  startSeconds: number,
+  durationSeconds: number,
+  windowFraction: number,
+  shotBoundaries: number[] = [],
+  filters: string[] = [],
+  ctx?: JobContext
+): Promise<FramingShot[]> {
+  const frames = await extractLumaFrames(inputPath, REFRAME_RATE, startSeconds, durationSeconds, filters, ctx);
+  const relativeFrames = frames.map(frame => ({ ...frame, time: frame.time - startSeconds }));
+  const shotStarts = shotBoundaries
+    .filter(boundary => boundary > startSeconds && boundary < startSeconds + durationSeconds)
+    .map(boundary => boundary - startSeconds);
+  return planFramingPath(relativeFrames, windowFraction, shotStarts);
+}
@@ -0,0 +1,152 @@
+/*
+ * © 2025 Full Digital LLC. All Rights Reserved.
+ * CUTMV - Music Video Cut-Down Tool
+ * Proprietary software - unauthorized use prohibited
+ */
+
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createHash, randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+
+// The routes write under ./uploads, so they run from a scratch directory; they're imported once it's current
+const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "cutmv-routes-"));
+const originalCwd = process.cwd();
+process.chdir(workDir);
+await fs.mkdir("uploads/chunks", { recursive: true });
+const { registerRoutes } = await import("./routes");
+
+const sha256 = (data: Buffer | string) => createHash("sha256").update(data).digest("hex");
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve));
+  process.chdir(originalCwd);
+  await fs.rm(workDir, { recursive: true, force: true });
+});
+
+interface ChunkUpload {
+  uploadId: string;
+  chunks: Buffer[];
+  index: number;
+  chunkHash?: string;
+}
+
+async function sendChunk({ uploadId, chunks, index, chunkHash }: ChunkUpload) {
+  const form = new FormData();
+  form.append("chunkIndex", String(index));
+  form.append("totalChunks", String(chunks.length));
+  form.append("uploadId", uploadId);
+  form.append("fileName", "master.mp4");
+  form.append("fileSize", String(chunks.reduce((sum, chunk) => sum + chunk.length, 0)));
+  form.append("chunkHash", chunkHash ?? sha256(chunks[index]));
+  form.append("chunk", new Blob([chunks[index]]), "chunk");
+  const response = await fetch(`${baseUrl}/api/upload-chunk`, { method: "POST", body: form });
+  return { status: response.status, body: await response.json() };
+}
+
+async function finalize(uploadId: string, fileHash: string) {
+  const response = await fetch(`${baseUrl}/api/finalize-upload`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ uploadId, fileHash }),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+async function waitForFinalize(uploadId: string) {
+  for (let attempt = 0; attempt < 200; attempt++) {
+    const body = await (await fetch(`${baseUrl}/api/upload/${uploadId}/finalize-status`)).json();
+    if (body.status === "completed" || body.status === "error") return body;
+    await new Promise(resolve => setTimeout(resolve, 25));
+  }
+  throw new Error(`Finalize of ${uploadId} did not finish`);
+}
+
+const getStatus = async (uploadId: string) => (await fetch(`${baseUrl}/api/upload/${uploadId}/status`)).json();
+const fileHashOf = (chunks: Buffer[]) => sha256(chunks.map(chunk => sha256(chunk)).join("\n"));
+
+describe("chunked uploads", () => {
+  test("a chunk whose bytes don't match its SHA-256 is rejected for a retry and not stored", async () => {
+    const upload = { uploadId: randomUUID(), chunks: [Buffer.from("first chunk"), Buffer.from("second chunk")] };
+
+    const rejected = await sendChunk({ ...upload, index: 0, chunkHash: sha256("something else") });
+    assert.equal(rejected.status, 422);
+    assert.equal(rejected.body.retryable, true);
+    assert.deepEqual((await getStatus(upload.uploadId)).receivedChunks, []);
+
+    const malformed = await sendChunk({ ...upload, index: 0, chunkHash: "not-a-hash" });
+    assert.equal(malformed.status, 400);
+  });
+
+  test("the status endpoint lists the chunks already held so an interrupted upload can resume", async () => {
+    const upload = { uploadId: randomUUID(), chunks: [Buffer.from("one"), Buffer.from("two"), Buffer.from("three")] };
+    assert.equal((await getStatus(upload.uploadId)).exists, false);
+
+    await sendChunk({ ...upload, index: 0 });
+    await sendChunk({ ...upload, index: 2 });
+    const status = await getStatus(upload.uploadId);
+    assert.deepEqual(
+      { exists: status.exists, fileName: status.fileName, fileSize: status.fileSize, totalChunks: status.totalChunks, receivedChunks: status.receivedChunks },
+      { exists: true, fileName: "master.mp4", fileSize: 11, totalChunks: 3, receivedChunks: [0, 2] }
+    );
+
+    const incomplete = await finalize(upload.uploadId, fileHashOf(upload.chunks));
+    assert.equal(incomplete.status, 400);
+    assert.deepEqual(incomplete.body.missingChunks, [1]);
+
+    const resent = await sendChunk({ ...upload, index: 2 });
+    assert.equal(resent.body.duplicate, true);
+    await sendChunk({ ...upload, index: 1 });
+    assert.deepEqual((await getStatus(upload.uploadId)).receivedChunks, [0, 1, 2]);
+  });
+
+  test("a whole-file checksum that doesn't match the chunks fails the finalize and discards the session", async () => {
+    const upload = { uploadId: randomUUID(), chunks: [Buffer.from("left"), Buffer.from("right")] };
+    await sendChunk({ ...upload, index: 0 });
+    await sendChunk({ ...upload, index: 1 });
+
+    const started = await finalize(upload.uploadId, fileHashOf([Buffer.from("other"), Buffer.from("file")]));
+    assert.equal(started.status, 202);
+
+    const result = await waitForFinalize(upload.uploadId);
+    assert.equal(result.status, "error");
+    assert.equal(result.message, "File checksum mismatch");
+    assert.equal(result.retryable, true);
+    // Every chunk matched the hash it arrived with, so they belong to another file and the upload starts over
+    assert.deepEqual(result.corruptChunks, []);
+    assert.equal((await getStatus(upload.uploadId)).exists, false);
+  });
+
+  test("chunks that arrive while the upload is being finalized are turned away", async () => {
+    // Big enough that merging and hashing are still running when the next request lands
+    const chunks = Array.from({ length: 4 }, (_, i) => Buffer.alloc(8 * 1024 * 1024, i + 1));
+    const upload = { uploadId: randomUUID(), chunks };
+    for (let index = 0; index < chunks.length; index++) {
+      assert.equal((await sendChunk({ ...upload, index })).status, 200);
+    }
+
+    assert.equal((await finalize(upload.uploadId, fileHashOf(chunks))).status, 202);
+    const late = await sendChunk({ ...upload, index: 3 });
+    assert.equal(late.status, 409);
+    assert.equal(late.body.finalizing, true);
+
+    assert.equal((await finalize(upload.uploadId, fileHashOf(chunks))).status, 409);
+    await waitForFinalize(upload.uploadId);
+  });
+});
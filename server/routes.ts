@@ -10,20 +10,28 @@ import { storage } from "./storage";
 import multer from "multer";
 import path from "path";
 import fs from "fs/promises";
-import { createWriteStream } from "fs";
-import ffmpeg from "fluent-ffmpeg";
-import AdmZip from "adm-zip";
-import { insertVideoSchema, timestampListSchema } from "@shared/schema";
-
-// Progress tracking storage
-const processingJobs = new Map<number, {
-  totalClips: number;
-  currentClip: number;
-  progress: number;
-  status: 'processing' | 'completed' | 'error';
-  errors: string[];
-  downloadPath?: string;
-}>();
+import { createWriteStream, createReadStream } from "fs";
+import { createHash } from "crypto";
+import { pipeline } from "stream/promises";
+import { jobOptionsSchema, gifOptionsSchema, canvasOptionsSchema, type Video } from "@shared/schema";
+import { startJobWorker, cancelJob } from "./jobs";
+import { probeMedia, detectSceneChanges, pickAutoRanges, BACKGROUNDS_DIR, type MediaProbe } from "./processing";
+import { createRandom, generateSeed, MAX_SEED, type RandomSource } from "./random";
+import { importCutList, decodeCutListFile, CUT_LIST_FORMATS } from "./cutlists";
+import { analyzeAudio, forgetAudioAnalysis, planAutoCuts, suggestCuts, type CutSuggestion } from "./analysis";
+import {
+  parseTimestampText,
+  validateTimestamps,
+  videoTimestampOptions,
+  formatTimestampIssue,
+  formatTimestampLine,
+  snapToShotBoundaries,
+  timestampToSeconds,
+  secondsToTimestamp,
+  type TimestampIssue,
+  type TimestampParseResult,
+  type TimestampMode,
+} from "@shared/timestamps";
 
 // Streamlined multer for maximum upload speed
 const upload = multer({
@@ -49,6 +57,29 @@ const chunkUpload = multer({
   }
 });
 
+// Cut lists (EDL, FCPXML, marker CSV) are small text files parsed straight from memory
+const cutListUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  }
+});
+
+// Background artwork for the image fill mode; multer's random filename doubles as the id
+const backgroundUpload = multer({
+  dest: BACKGROUNDS_DIR,
+  limits: {
+    fileSize: 20 * 1024 * 1024, // 20MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (/\.(jpe?g|png|webp)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Please upload a JPEG, PNG or WebP image.'));
+    }
+  }
+});
+
 // Utility function to check available disk space
 async function checkDiskSpace(): Promise<{ available: number; total: number }> {
   try {
@@ -72,16 +103,334 @@ function formatBytes(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 }
 
-// Store for chunked uploads - lightweight metadata only (chunks stored on disk)
-const chunkStore = new Map<string, {
+interface UploadSession {
   chunkDir: string;
   fileName: string;
-  totalSize: number;
+  fileSize: number;
   totalChunks: number;
-  receivedChunks: number;
   timestamp: number;
   finalizing: boolean;
-}>();
+}
+
+// Store for chunked uploads - lightweight metadata only (chunks stored on disk).
+// Each session is mirrored to uploads/chunks/<uploadId>/session.json so uploads
+// can resume after a server restart.
+const chunkStore = new Map<string, UploadSession>();
+
+const UPLOAD_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const CHUNK_FILE_PATTERN = /^(\d{5})\.part$/;
+const SHA256_PATTERN = /^[a-f0-9]{64}$/;
+
+// Multipart fields arrive as strings; only plain digit strings (or integers) count as counts and sizes
+function parseNonNegativeInteger(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isSafeInteger(value) && value >= 0 ? value : null;
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) return null;
+  const parsed = Number(value);
+  return Number.isSafeInteger(parsed) ? parsed : null;
+}
+
+function chunkFileName(index: number): string {
+  return String(index).padStart(5, '0') + '.part';
+}
+
+// Look up an upload session in memory, falling back to its on-disk manifest
+async function getUploadSession(uploadId: string): Promise<UploadSession | undefined> {
+  const cached = chunkStore.get(uploadId);
+  if (cached) return cached;
+
+  const chunkDir = path.join('uploads', 'chunks', uploadId);
+  try {
+    const manifest = JSON.parse(await fs.readFile(path.join(chunkDir, 'session.json'), 'utf8'));
+    const session: UploadSession = { ...manifest, chunkDir, finalizing: false };
+    chunkStore.set(uploadId, session);
+    return session;
+  } catch {
+    return undefined;
+  }
+}
+
+async function createUploadSession(uploadId: string, fileName: string, fileSize: number, totalChunks: number): Promise<UploadSession> {
+  const chunkDir = path.join('uploads', 'chunks', uploadId);
+  await fs.mkdir(chunkDir, { recursive: true });
+
+  const session: UploadSession = {
+    chunkDir,
+    fileName,
+    fileSize,
+    totalChunks,
+    timestamp: Date.now(),
+    finalizing: false,
+  };
+  const { finalizing, ...manifest } = session;
+  await fs.writeFile(path.join(chunkDir, 'session.json'), JSON.stringify(manifest));
+  chunkStore.set(uploadId, session);
+  return session;
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const data of createReadStream(filePath)) {
+    hash.update(data as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+// SHA-256 of each consecutive segment of a file, segments sized like the uploaded chunks
+async function hashFileSegments(filePath: string, segmentSizes: number[], onProgress?: (bytesRead: number) => void): Promise<string[]> {
+  const digests: string[] = [];
+  let hash = createHash('sha256');
+  let remaining = segmentSizes[0] ?? 0;
+  let bytesRead = 0;
+
+  for await (const data of createReadStream(filePath)) {
+    let buffer = data as Buffer;
+    bytesRead += buffer.length;
+    onProgress?.(bytesRead);
+    while (buffer.length > 0) {
+      if (digests.length === segmentSizes.length) {
+        throw new Error('Merged file is larger than its chunks');
+      }
+      const take = Math.min(remaining, buffer.length);
+      hash.update(buffer.subarray(0, take));
+      buffer = buffer.subarray(take);
+      remaining -= take;
+
+      if (remaining === 0) {
+        digests.push(hash.digest('hex'));
+        hash = createHash('sha256');
+        remaining = segmentSizes[digests.length] ?? 0;
+      }
+    }
+  }
+
+  if (digests.length !== segmentSizes.length) {
+    throw new Error('Merged file is shorter than its chunks');
+  }
+  return digests;
+}
+
+// Whole-file checksum: SHA-256 over the newline-joined hex SHA-256 of every chunk, in order.
+// Browsers can't hash multi-GB files in one go, so client and server both build it from chunk hashes.
+function combineChunkHashes(chunkHashes: string[]): string {
+  return createHash('sha256').update(chunkHashes.join('\n')).digest('hex');
+}
+
+async function readChunkHash(chunkDir: string, index: number): Promise<string | undefined> {
+  return fs.readFile(path.join(chunkDir, chunkFileName(index) + '.sha256'), 'utf8').catch(() => undefined);
+}
+
+// Chunk indices present on disk, in ascending order
+async function listReceivedChunks(chunkDir: string): Promise<number[]> {
+  const files = await fs.readdir(chunkDir).catch(() => [] as string[]);
+  return files
+    .map(file => file.match(CHUNK_FILE_PATTERN))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => parseInt(match[1], 10))
+    .sort((a, b) => a - b);
+}
+
+interface FinalizeStatus {
+  status: 'merging' | 'verifying' | 'probing' | 'completed' | 'error';
+  bytesProcessed: number;
+  totalBytes: number;
+  progress: number;
+  updatedAt: number;
+  video?: Video;
+  message?: string;
+  retryable?: boolean;
+  corruptChunks?: number[];
+}
+
+// Background finalize progress by uploadId; finished entries are kept briefly for the client to collect
+const finalizeStatuses = new Map<string, FinalizeStatus>();
+const FINALIZE_STATUS_TTL_MS = 10 * 60 * 1000;
+
+function updateFinalizeStatus(status: FinalizeStatus, updates: Partial<FinalizeStatus>): void {
+  Object.assign(status, updates, { updatedAt: Date.now() });
+  if ((status.status === 'merging' || status.status === 'verifying') && status.totalBytes > 0) {
+    // Merging is the first half of the work, verification the second
+    const phaseOffset = status.status === 'merging' ? 0 : 50;
+    status.progress = Math.min(100, phaseOffset + Math.round((status.bytesProcessed / status.totalBytes) * 50));
+  }
+}
+
+// Stream every chunk into the final file in order; pipeline() honors backpressure so only a buffer's worth is in memory
+async function* readChunksInOrder(chunkPaths: string[], onBytes: (bytes: number) => void): AsyncGenerator<Buffer> {
+  for (const chunkPath of chunkPaths) {
+    for await (const data of createReadStream(chunkPath)) {
+      onBytes((data as Buffer).length);
+      yield data as Buffer;
+    }
+  }
+}
+
+// Merge, verify and register a fully uploaded file, reporting progress through `status`
+async function finalizeUpload(
+  uploadId: string,
+  upload: UploadSession,
+  totalSize: number,
+  fileHash: string,
+  status: FinalizeStatus
+): Promise<void> {
+  let finalPath: string | null = null;
+  
+  try {
+    // Named from the session, which validated the name when the first chunk arrived
+    finalPath = `uploads/${Date.now()}-${path.basename(upload.fileName)}`;
+    
+    const chunkPaths: string[] = [];
+    const chunkSizes: number[] = [];
+    for (let i = 0; i < upload.totalChunks; i++) {
+      const chunkPath = path.join(upload.chunkDir, chunkFileName(i));
+      
+      // Verify chunk exists
+      try {
+        chunkSizes.push((await fs.stat(chunkPath)).size);
+      } catch {
+        throw new Error(`Missing chunk ${i}`);
+      }
+      chunkPaths.push(chunkPath);
+    }
+    status.totalBytes = chunkSizes.reduce((sum, size) => sum + size, 0);
+    
+    let bytesMerged = 0;
+    await pipeline(
+      readChunksInOrder(chunkPaths, (bytes) => {
+        bytesMerged += bytes;
+        updateFinalizeStatus(status, { bytesProcessed: bytesMerged });
+      }),
+      createWriteStream(finalPath)
+    );
+    
+    // The video record stores the bytes actually merged, which must be what the client said it sent
+    const mergedSize = (await fs.stat(finalPath)).size;
+    if (mergedSize !== totalSize) {
+      await fs.unlink(finalPath).catch(() => {});
+      console.warn(`Upload ${uploadId} merged ${mergedSize} bytes but declared ${totalSize}`);
+      updateFinalizeStatus(status, { status: 'error', message: `Merged ${mergedSize} bytes but the upload declared ${totalSize}`, retryable: false });
+      return;
+    }
+    
+    // Verify what actually landed on disk before accepting the upload
+    updateFinalizeStatus(status, { status: 'verifying', bytesProcessed: 0 });
+    const segmentHashes = await hashFileSegments(finalPath, chunkSizes, (bytesRead) => {
+      updateFinalizeStatus(status, { bytesProcessed: bytesRead });
+    });
+    
+    if (combineChunkHashes(segmentHashes) !== fileHash) {
+      await fs.unlink(finalPath).catch(() => {});
+      
+      // Drop chunks whose bytes no longer match the checksum they arrived with so a resume re-sends them
+      const corruptChunks: number[] = [];
+      for (let i = 0; i < segmentHashes.length; i++) {
+        const storedHash = await readChunkHash(upload.chunkDir, i);
+        if (storedHash !== segmentHashes[i]) {
+          corruptChunks.push(i);
+          await fs.unlink(path.join(upload.chunkDir, chunkFileName(i))).catch(() => {});
+        }
+      }
+      
+      // Every chunk is intact but the file still differs - the chunks belong to another file, start over
+      if (corruptChunks.length === 0) {
+        await fs.rm(upload.chunkDir, { recursive: true, force: true });
+        chunkStore.delete(uploadId);
+      }
+      
+      console.warn(`File checksum mismatch for upload ${uploadId}; corrupt chunks: ${corruptChunks.join(', ') || 'none'}`);
+      updateFinalizeStatus(status, { status: 'error', message: "File checksum mismatch", retryable: true, corruptChunks });
+      return;
+    }
+    
+    // Create video record
+    const video = await storage.createVideo({
+      filename: path.basename(finalPath),
+      originalName: upload.fileName,
+      path: finalPath,
+      size: mergedSize,
+    });
+    
+    // Cleanup chunk directory and session
+    await fs.rm(upload.chunkDir, { recursive: true, force: true });
+    chunkStore.delete(uploadId);
+    
+    updateFinalizeStatus(status, { status: 'probing', progress: 100 });
+    const probedVideo = await probeUploadedVideo(video);
+    
+    updateFinalizeStatus(status, { status: 'completed', progress: 100, video: probedVideo });
+  } catch (error) {
+    if (error instanceof NoVideoStreamError) {
+      updateFinalizeStatus(status, { status: 'error', message: error.message, retryable: false });
+      return;
+    }
+
+    console.error('Finalize upload error:', error);
+    // Cleanup the partial merge but keep the chunks so the client can resume
+    if (finalPath) {
+      await fs.unlink(finalPath).catch(() => {});
+    }
+    updateFinalizeStatus(status, { status: 'error', message: "Failed to finalize upload", retryable: false });
+  } finally {
+    upload.finalizing = false;
+    setTimeout(() => {
+      if (finalizeStatuses.get(uploadId) === status) {
+        finalizeStatuses.delete(uploadId);
+      }
+    }, FINALIZE_STATUS_TTL_MS).unref();
+  }
+}
+
+class NoVideoStreamError extends Error {
+  constructor(fileName: string) {
+    super(`${fileName} has no video stream. Please upload a video file.`);
+    this.name = 'NoVideoStreamError';
+  }
+}
+
+// Probe a freshly stored upload and record its stream metadata. Files without a video stream are
+// deleted along with their record; a probe that fails outright is recorded but does not block the upload.
+async function probeUploadedVideo(video: Video): Promise<Video> {
+  let probe: MediaProbe;
+  try {
+    probe = await probeMedia(video.path);
+  } catch (error) {
+    const probeError = error instanceof Error ? error.message : String(error);
+    console.warn(`Media probe failed for video ${video.id}:`, probeError);
+    return (await storage.updateVideo(video.id, { probeStatus: 'failed', probeError })) ?? video;
+  }
+  
+  const { hasVideoStream, ...metadata } = probe;
+  if (!hasVideoStream) {
+    await storage.deleteVideo(video.id);
+    await fs.unlink(video.path).catch(() => {});
+    forgetAudioAnalysis(video.path);
+    throw new NoVideoStreamError(video.originalName);
+  }
+  
+  const updates: Partial<Video> = { ...metadata, probeStatus: 'completed', probeError: null };
+  if (metadata.durationSeconds !== null) {
+    updates.duration = formatDuration(metadata.durationSeconds);
+  }
+  
+  console.log(`Probed video ${video.id}: ${metadata.width}x${metadata.height} ${metadata.videoCodec} @ ${metadata.frameRate?.toFixed(3)}fps, ${metadata.durationSeconds}s`);
+  const probedVideo = (await storage.updateVideo(video.id, updates)) ?? video;
+
+  // Scene detection decodes the whole file, so it runs after the upload has been answered
+  void detectUploadedScenes(probedVideo);
+  return probedVideo;
+}
+
+// Record the shot boundaries of an upload; a failure only disables shot snapping for that video
+async function detectUploadedScenes(video: Video): Promise<void> {
+  try {
+    await storage.updateVideo(video.id, { sceneStatus: 'analyzing' });
+    const shotBoundaries = await detectSceneChanges(video.path);
+    await storage.updateVideo(video.id, { sceneStatus: 'completed', shotBoundaries });
+    console.log(`Detected ${shotBoundaries.length} shot changes in video ${video.id}`);
+  } catch (error) {
+    console.warn(`Scene detection failed for video ${video.id}:`, error instanceof Error ? error.message : error);
+    await storage.updateVideo(video.id, { sceneStatus: 'failed' }).catch(() => {});
+  }
+}
 
 // Auto-cleanup function for old files
 async function cleanupOldFiles(): Promise<void> {
@@ -97,6 +446,7 @@ async function cleanupOldFiles(): Promise<void> {
       // Delete files older than 24 hours
       if (stats.mtime.getTime() < oneDayAgo) {
         await fs.unlink(filePath);
+        forgetAudioAnalysis(filePath);
         console.log(`Cleaned up old file: ${file}`);
       }
     }
@@ -105,76 +455,149 @@ async function cleanupOldFiles(): Promise<void> {
   }
 }
 
-// Start auto-cleanup timer (runs every 6 hours)
-setInterval(cleanupOldFiles, 6 * 60 * 60 * 1000);
+// Start auto-cleanup timer (runs every 6 hours); the HTTP server is what keeps the process alive
+setInterval(cleanupOldFiles, 6 * 60 * 60 * 1000).unref();
 
 export async function registerRoutes(app: Express): Promise<Server> {
   
+  // Resumable upload status - which chunks the server already has for this upload
+  app.get("/api/upload/:uploadId/status", async (req, res) => {
+    try {
+      const { uploadId } = req.params;
+
+      if (!UPLOAD_ID_PATTERN.test(uploadId)) {
+        return res.status(400).json({ message: "Invalid upload ID" });
+      }
+
+      const upload = await getUploadSession(uploadId);
+      if (!upload) {
+        return res.json({ uploadId, exists: false, totalChunks: 0, receivedChunks: [] });
+      }
+
+      res.json({
+        uploadId,
+        exists: true,
+        fileName: upload.fileName,
+        fileSize: upload.fileSize,
+        totalChunks: upload.totalChunks,
+        receivedChunks: await listReceivedChunks(upload.chunkDir),
+      });
+    } catch (error) {
+      console.error('Upload status error:', error);
+      res.status(500).json({ message: "Failed to get upload status" });
+    }
+  });
+
   // High-speed chunked upload endpoint optimized for 500MB-5GB files
   app.post("/api/upload-chunk", chunkUpload.single('chunk'), async (req, res) => {
     try {
-      const { chunkIndex, totalChunks, uploadId, fileName } = req.body;
+      const { chunkIndex, totalChunks, uploadId, fileName, fileSize, chunkHash } = req.body;
       
       if (!req.file || !uploadId || chunkIndex === undefined) {
         return res.status(400).json({ message: "Missing chunk data" });
       }
 
-      // Create upload session on first chunk
-      if (!chunkStore.has(uploadId)) {
-        const chunkDir = path.join('uploads', 'chunks', uploadId);
-        await fs.mkdir(chunkDir, { recursive: true });
-        
-        chunkStore.set(uploadId, {
-          chunkDir,
-          fileName,
-          totalSize: 0,
-          totalChunks: parseInt(totalChunks),
-          receivedChunks: 0,
-          timestamp: Date.now(),
-          finalizing: false,
-        });
+      if (typeof chunkHash !== 'string' || !SHA256_PATTERN.test(chunkHash)) {
+        await fs.unlink(req.file.path).catch(() => {});
+        return res.status(400).json({ message: "Missing or malformed chunk checksum" });
+      }
+
+      if (!UPLOAD_ID_PATTERN.test(uploadId)) {
+        await fs.unlink(req.file.path).catch(() => {});
+        return res.status(400).json({ message: "Invalid upload ID" });
+      }
+
+      // Create upload session on first chunk (or pick up an existing one from disk)
+      let upload = await getUploadSession(uploadId);
+      if (!upload) {
+        const declaredChunks = parseNonNegativeInteger(totalChunks);
+        const declaredSize = parseNonNegativeInteger(fileSize);
+        const baseName = typeof fileName === 'string' ? path.basename(fileName.trim()) : '';
+        if (!declaredChunks || declaredSize === null || !baseName) {
+          await fs.unlink(req.file.path).catch(() => {});
+          return res.status(400).json({ message: "totalChunks must be a positive integer, fileSize a non-negative integer and fileName a non-empty string" });
+        }
+        upload = await createUploadSession(uploadId, baseName, declaredSize, declaredChunks);
+      }
+      
+      // The merge has already read the chunk list; a chunk landing now would be left out or swapped mid-read
+      if (upload.finalizing) {
+        await fs.unlink(req.file.path).catch(() => {});
+        return res.status(409).json({ message: "Upload is being finalized", finalizing: true });
       }
       
-      const upload = chunkStore.get(uploadId)!;
+      const index = parseInt(chunkIndex);
+      if (!Number.isInteger(index) || index < 0 || index >= upload.totalChunks) {
+        await fs.unlink(req.file.path).catch(() => {});
+        return res.status(400).json({ message: `Chunk index ${chunkIndex} out of range` });
+      }
+      
+      // Reject chunks that were corrupted in transit; the client retries them
+      const actualHash = await hashFile(req.file.path);
+      if (actualHash !== chunkHash) {
+        await fs.unlink(req.file.path).catch(() => {});
+        console.warn(`Chunk ${index + 1}/${upload.totalChunks} checksum mismatch (expected ${chunkHash}, got ${actualHash})`);
+        return res.status(422).json({ message: `Chunk ${index} checksum mismatch`, retryable: true });
+      }
       
-      // Store chunk on disk with zero-padded index for sequential reading
-      const chunkFileName = String(chunkIndex).padStart(5, '0') + '.part';
-      const chunkPath = path.join(upload.chunkDir, chunkFileName);
+      const chunkPath = path.join(upload.chunkDir, chunkFileName(index));
       
-      // Move uploaded chunk to permanent location (no need to read into memory)
-      await fs.rename(req.file.path, chunkPath);
+      // A re-sent chunk we already hold intact is dropped instead of counted twice
+      const existingHash = await readChunkHash(upload.chunkDir, index);
+      const duplicate = existingHash === chunkHash && await fs.access(chunkPath).then(() => true, () => false);
+      if (duplicate) {
+        await fs.unlink(req.file.path).catch(() => {});
+      } else {
+        // Store chunk on disk with zero-padded index for sequential reading.
+        // The rename is atomic, so a chunk file is either complete or absent.
+        await fs.writeFile(chunkPath + '.sha256', chunkHash);
+        await fs.rename(req.file.path, chunkPath);
+      }
       
-      // Update metadata
-      const chunkStats = await fs.stat(chunkPath);
-      upload.receivedChunks++;
-      upload.totalSize += chunkStats.size;
+      const receivedChunks = await listReceivedChunks(upload.chunkDir);
       
-      console.log(`Chunk ${parseInt(chunkIndex) + 1}/${upload.totalChunks} received (${Math.round(upload.totalSize / 1024 / 1024)}MB)`);
+      console.log(`Chunk ${index + 1}/${upload.totalChunks} ${duplicate ? 'already received' : 'received'} (${receivedChunks.length} on disk)`);
       
       // Set response headers for keep-alive connections
       res.setHeader('Connection', 'keep-alive');
       res.setHeader('Keep-Alive', 'timeout=300, max=1000');
       
       // Fast response
-      res.json({ success: true, received: upload.receivedChunks, total: upload.totalChunks });
+      res.json({ success: true, duplicate, received: receivedChunks.length, total: upload.totalChunks });
     } catch (error) {
       console.error('Chunk upload error:', error);
       res.status(500).json({ message: "Failed to upload chunk" });
     }
   });
 
-  // Finalize chunked upload
+  // Finalize chunked upload - merging runs in the background, poll finalize-status for progress
   app.post("/api/finalize-upload", async (req, res) => {
     try {
-      const { uploadId, fileName, totalSize } = req.body;
+      const { uploadId, totalSize, fileHash } = req.body;
       
-      const upload = chunkStore.get(uploadId);
+      if (typeof uploadId !== 'string' || !UPLOAD_ID_PATTERN.test(uploadId)) {
+        return res.status(400).json({ message: "Invalid upload ID" });
+      }
+      
+      if (typeof fileHash !== 'string' || !SHA256_PATTERN.test(fileHash)) {
+        return res.status(400).json({ message: "Missing or malformed file checksum" });
+      }
+      
+      const upload = await getUploadSession(uploadId);
       if (!upload) {
         return res.status(400).json({ message: "Upload session not found" });
       }
       
-      if (upload.receivedChunks !== upload.totalChunks) {
-        return res.status(400).json({ message: "Incomplete upload" });
+      // Falls back to the size declared with the first chunk; the merge has to match it exactly
+      const declaredSize = totalSize === undefined ? upload.fileSize : parseNonNegativeInteger(totalSize);
+      if (declaredSize === null) {
+        return res.status(400).json({ message: "totalSize must be a non-negative integer" });
+      }
+      
+      const receivedChunks = new Set(await listReceivedChunks(upload.chunkDir));
+      const missingChunks = Array.from({ length: upload.totalChunks }, (_, i) => i).filter(i => !receivedChunks.has(i));
+      if (missingChunks.length > 0) {
+        return res.status(400).json({ message: "Incomplete upload", missingChunks });
       }
       
       // Prevent concurrent finalization
@@ -183,75 +606,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       upload.finalizing = true;
       
-      const finalPath = `uploads/${Date.now()}-${fileName}`;
+      const status: FinalizeStatus = {
+        status: 'merging',
+        bytesProcessed: 0,
+        totalBytes: declaredSize,
+        progress: 0,
+        updatedAt: Date.now(),
+      };
+      finalizeStatuses.set(uploadId, status);
       
-      try {
-        // Stream-merge chunks without loading into memory
-        const writeStream = createWriteStream(finalPath);
-        
-        // Read and write chunks sequentially
-        for (let i = 0; i < upload.totalChunks; i++) {
-          const chunkFileName = String(i).padStart(5, '0') + '.part';
-          const chunkPath = path.join(upload.chunkDir, chunkFileName);
-          
-          // Verify chunk exists
-          try {
-            await fs.access(chunkPath);
-          } catch {
-            throw new Error(`Missing chunk ${i}`);
-          }
-          
-          // Stream chunk to final file
-          const chunkData = await fs.readFile(chunkPath);
-          writeStream.write(chunkData);
-        }
-        
-        writeStream.end();
-        
-        await new Promise((resolve, reject) => {
-          writeStream.on('finish', resolve);
-          writeStream.on('error', reject);
-        });
-        
-        // Create video record
-        const video = await storage.createVideo({
-          filename: path.basename(finalPath),
-          originalName: fileName,
-          path: finalPath,
-          size: totalSize,
-        });
-        
-        // Background FFmpeg processing
-        setImmediate(() => {
-          ffmpeg.ffprobe(finalPath, (err, metadata) => {
-            if (!err && metadata?.format?.duration) {
-              const duration = formatDuration(metadata.format.duration);
-              storage.updateVideo(video.id, { duration });
-            }
-          });
-        });
-        
-        // Cleanup chunk directory and session
-        await fs.rm(upload.chunkDir, { recursive: true, force: true });
-        chunkStore.delete(uploadId);
-        
-        res.json(video);
-      } catch (error) {
-        // Cleanup on failure
-        try {
-          await fs.unlink(finalPath).catch(() => {});
-          await fs.rm(upload.chunkDir, { recursive: true, force: true });
-        } catch {}
-        
-        chunkStore.delete(uploadId);
-        throw error;
-      }
+      void finalizeUpload(uploadId, upload, declaredSize, fileHash, status);
+      
+      res.status(202).json({ uploadId, ...status });
     } catch (error) {
       console.error('Finalize upload error:', error);
       res.status(500).json({ message: "Failed to finalize upload" });
     }
   });
 
+  // Progress of a background finalize (merge, then checksum verification)
+  app.get("/api/upload/:uploadId/finalize-status", async (req, res) => {
+    const status = finalizeStatuses.get(req.params.uploadId);
+    if (!status) {
+      return res.status(404).json({ message: "No finalize in progress for this upload" });
+    }
+    res.json(status);
+  });
+
   // Regular upload endpoint for smaller files
   app.post("/api/upload", upload.single('video'), async (req, res) => {
     try {
@@ -291,20 +672,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       console.log('Video created:', video);
 
-      // Immediately respond to speed up upload
-      res.json(video);
-
-      // Get video duration using ffmpeg in background (non-blocking)
-      setImmediate(() => {
-        ffmpeg.ffprobe(req.file.path, (err, metadata) => {
-          if (!err && metadata?.format?.duration) {
-            const duration = formatDuration(metadata.format.duration);
-            storage.updateVideo(video.id, { duration });
-            console.log(`Updated video ${video.id} with duration: ${duration}`);
-          }
-        });
-      });
+      // Probe before responding so files without a video stream are turned away up front
+      const probedVideo = await probeUploadedVideo(video);
+      res.json(probedVideo);
     } catch (error) {
+      if (error instanceof NoVideoStreamError) {
+        return res.status(422).json({ message: error.message });
+      }
       console.error('Upload error:', error);
       res.status(500).json({ message: "Failed to upload video" });
     }
@@ -313,7 +687,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Parse timestamps endpoint
   app.post("/api/parse-timestamps", async (req, res) => {
     try {
-      const { text, videoId } = req.body;
+      const { text, videoId, mode } = req.body;
       
       if (!text || !videoId) {
         return res.status(400).json({ message: "Text and videoId are required" });
@@ -324,41 +698,101 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Video not found" });
       }
 
-      const timestamps = parseTimestamps(text);
-      const validation = validateTimestamps(timestamps, video.duration);
+      res.json(parseTimestampText(text, { ...videoTimestampOptions(video), mode: parseTimestampMode(mode) }));
+    } catch (error) {
+      console.error('Parse timestamps error:', error);
+      res.status(500).json({ message: "Failed to parse timestamps" });
+    }
+  });
+
+  // Import selects from an NLE export (EDL, FCPXML, Premiere marker CSV, Resolve marker EDL, CSV)
+  app.post("/api/video/:id/import-timestamps", cutListUpload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No cut list file uploaded" });
+      }
+
+      const { format } = req.body;
+      if (format && !CUT_LIST_FORMATS.includes(format)) {
+        return res.status(400).json({ message: `Unsupported format. Use one of: ${CUT_LIST_FORMATS.join(', ')}` });
+      }
+
+      const video = await storage.getVideo(parseInt(req.params.id));
+      if (!video) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+
+      const content = decodeCutListFile(req.file.buffer);
+      const result = importCutList(content, req.file.originalname, { ...videoTimestampOptions(video), format });
 
       res.json({
-        timestamps: validation.valid,
-        errors: validation.errors,
-        warnings: validation.warnings
+        ...result,
+        // Ready to drop into the timestamp box, which is what gets sent for processing
+        text: result.timestamps.map(formatTimestampLine).join('\n'),
       });
     } catch (error) {
-      console.error('Parse timestamps error:', error);
-      res.status(500).json({ message: "Failed to parse timestamps" });
+      console.error('Import timestamps error:', error);
+      res.status(500).json({ message: "Failed to import timestamps" });
     }
   });
 
-  // Auto 5-Cut Generator endpoint
+  // Upload artwork for the image background fill mode; the returned id goes in the job's backgroundImage option
+  app.post("/api/backgrounds", backgroundUpload.single('image'), async (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ message: "No background image uploaded" });
+    }
+    res.json({ backgroundImage: req.file.filename });
+  });
+
+  // Auto 5-Cut Generator endpoint. "smart" (default) cuts on the bars of the loudest and most repeated
+  // sections of the soundtrack; "random" keeps the old random ranges and is the fallback without audio.
   app.post("/api/generate-5-cuts", async (req, res) => {
     try {
-      const { videoId } = req.body;
+      const { videoId, mode = 'smart' } = req.body;
+      const seed = req.body.seed ?? generateSeed();
       
       if (!videoId) {
         return res.status(400).json({ message: "Video ID is required" });
       }
 
+      if (mode !== 'smart' && mode !== 'random') {
+        return res.status(400).json({ message: "Mode must be 'smart' or 'random'" });
+      }
+
+      if (!isValidSeed(seed)) {
+        return res.status(400).json({ message: `Seed must be a whole number from 0 to ${MAX_SEED}` });
+      }
+
       const video = await storage.getVideo(videoId);
       if (!video || !video.duration) {
         return res.status(404).json({ message: "Video not found or duration unknown" });
       }
 
-      const timestamps = generateRandomTimestamps(video.duration);
-      const validation = validateTimestamps(timestamps, video.duration);
+      const totalSeconds = video.durationSeconds ?? timestampToSeconds(video.duration);
+      let suggestions: CutSuggestion[] | null = null;
+      let fallbackReason: string | null = null;
+
+      if (mode === 'smart') {
+        if (!video.audioCodec) {
+          fallbackReason = 'Video has no audio track to analyze';
+        } else {
+          try {
+            suggestions = suggestCuts(await analyzeAudio(video.path), planAutoCuts(totalSeconds));
+          } catch (error) {
+            console.warn('Audio analysis failed, falling back to random cuts:', error);
+            fallbackReason = error instanceof Error ? error.message : 'Audio analysis failed';
+          }
+        }
+      }
 
+      const timestamps = suggestions ?? generateRandomTimestamps(video.duration, createRandom(seed));
       res.json({
-        timestamps: validation.valid,
-        errors: validation.errors,
-        warnings: validation.warnings,
+        ...validateTimestamps(timestamps.map(({ startTime, endTime }) => ({ startTime, endTime })), videoTimestampOptions(video)),
+        mode: suggestions ? 'smart' : 'random',
+        // Only random picks depend on the seed; smart suggestions are the same every time
+        seed: suggestions ? null : seed,
+        suggestions,
+        fallbackReason,
       });
     } catch (error) {
       console.error('Generate 5-cuts error:', error);
@@ -366,11 +800,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Process clips endpoint
-  // Process clips with direct text parsing (streamlined workflow)
-  app.post('/api/process-clips-direct', async (req, res) => {
+  // Queue an export job (clips, GIFs, thumbnails, Canvas) for the background worker.
+  // /api/process-clips-direct is kept as an alias for older clients.
+  app.post(['/api/jobs', '/api/process-clips-direct'], async (req, res) => {
     try {
-      const { videoId, timestampText, outputName, quality = 'balanced', videoFade = false, audioFade = false, fadeDuration = 0.5, generateGif = false, generateThumbnails = false, generateCanvas = false, aspectRatios = ['16:9'] } = req.body;
+      // generateCutdowns: false keeps the timestamps for GIFs only, without cutting them as clips
+      const { videoId, timestampText, timestampMode, generateCutdowns = true, ...rest } = req.body;
 
       if (!videoId) {
         return res.status(400).json({ 
@@ -379,6 +814,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      const optionsResult = jobOptionsSchema.omit({ timestamps: true }).safeParse(rest);
+      if (!optionsResult.success) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid processing options',
+          errors: optionsResult.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        });
+      }
+      const options = optionsResult.data;
+      const { generateGif, generateThumbnails, generateCanvas } = options;
+
       if (!timestampText && !generateGif && !generateThumbnails && !generateCanvas) {
         return res.status(400).json({ 
           success: false, 
@@ -395,373 +841,102 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Parse timestamps only if provided
-      let validatedResult = { valid: [], errors: [], warnings: [] };
+      let validatedResult: TimestampParseResult = { timestamps: [], errors: [], warnings: [] };
       if (timestampText && timestampText.trim()) {
-        const parseResult = parseTimestamps(timestampText);
-        validatedResult = validateTimestamps(parseResult, video.duration);
+        validatedResult = parseTimestampText(timestampText, { ...videoTimestampOptions(video), mode: parseTimestampMode(timestampMode) });
 
-        if (validatedResult.valid.length === 0 && !generateGif && !generateThumbnails && !generateCanvas) {
+        if (validatedResult.timestamps.length === 0 && !generateGif && !generateThumbnails && !generateCanvas) {
           return res.status(400).json({
             success: false,
             message: 'No valid timestamps found and no exports requested',
-            errors: validatedResult.errors
+            errors: validatedResult.errors.map(formatTimestampIssue)
           });
         }
       }
 
-      // Process clips with valid timestamps
-      const qualitySettings = {
-        high: 'libx264 -crf 18',
-        balanced: 'libx264 -crf 20', 
-        compressed: 'libx264 -crf 23'
-      };
-
-      const finalOutputName = outputName || video.originalName.replace(/\.[^/.]+$/, '');
-      const masterOutputDir = path.join('uploads', 'clips', finalOutputName);
-      await fs.mkdir(masterOutputDir, { recursive: true });
-      
-      // Create separate folders for different content types and aspect ratios
-      const clipsDir16x9 = path.join(masterOutputDir, 'clips (16x9)');
-      const clipsDir9x16 = path.join(masterOutputDir, 'clips (9x16)');
-      const gifsDir = path.join(masterOutputDir, 'gifs');  
-      const thumbnailsDir = path.join(masterOutputDir, 'thumbnails');
-      const canvasDir = path.join(masterOutputDir, 'canvas');
-      
-      // Create aspect ratio directories based on selection
-      if (validatedResult.valid.length > 0) {
-        if (aspectRatios.includes('16:9')) {
-          await fs.mkdir(clipsDir16x9, { recursive: true });
-        }
-        if (aspectRatios.includes('9:16')) {
-          await fs.mkdir(clipsDir9x16, { recursive: true });
-        }
+      // GIFs and Canvas loops can come from the user's own timestamps instead of random picks
+      const gifsFromTimestamps = generateGif && options.gif.source === 'timestamps';
+      const canvasFromTimestamps = generateCanvas && options.canvas.source === 'timestamps';
+      if ((gifsFromTimestamps || canvasFromTimestamps) && validatedResult.timestamps.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: `${gifsFromTimestamps ? 'GIFs' : 'Canvas loops'} from timestamps need at least one valid timestamp`
+        });
       }
-      if (generateGif) {
-        await fs.mkdir(gifsDir, { recursive: true });
+      const ownRanges = validatedResult.timestamps.map(({ startTime, endTime, label, cropOffset }) => ({ startTime, endTime, label, cropOffset }));
+      if (gifsFromTimestamps) {
+        options.gif.ranges = ownRanges;
       }
-      if (generateThumbnails) {
-        await fs.mkdir(thumbnailsDir, { recursive: true });
+      if (canvasFromTimestamps) {
+        options.canvas.ranges = ownRanges;
       }
-      if (generateCanvas) {
-        await fs.mkdir(canvasDir, { recursive: true });
+      if (!generateCutdowns) {
+        validatedResult = { ...validatedResult, timestamps: [] };
       }
 
-      const processedClips: string[] = [];
-      const errors: string[] = [];
-
-      // Calculate total items to process (clips * aspect ratios + optional GIF + optional thumbnails + optional Canvas)
-      let totalItems = validatedResult.valid.length * aspectRatios.length;
-      if (generateGif) totalItems += 1;
-      if (generateThumbnails) totalItems += 1;
-      if (generateCanvas) totalItems += 1;
-
-      // Initialize progress tracking with aspect ratio multiplication
-      const totalGifs = generateGif ? 10 : 0;
-      const totalThumbnails = generateThumbnails ? 10 : 0;
-      const totalCanvas = generateCanvas ? 5 : 0;
-      const totalClips = validatedResult.valid.length * aspectRatios.length;
-      const totalOutputs = totalClips + totalGifs + totalThumbnails + totalCanvas;
-      
-      processingJobs.set(videoId, {
-        totalClips: totalClips,
-        totalGifs,
-        totalThumbnails,
-        totalCanvas,
-        totalOutputs,
-        currentClip: 0,
-        progress: 0,
-        status: 'processing',
-        errors: [],
-        totalItems,
-        startTime: Date.now()
-      });
-
-      // Process clips for each aspect ratio
-      let clipCounter = 0;
-      for (let i = 0; i < validatedResult.valid.length; i++) {
-        const timestamp = validatedResult.valid[i];
-        const clipNumber = String(i + 1).padStart(2, '0');
-
-        // Process for each selected aspect ratio
-        for (const aspectRatio of aspectRatios) {
-          clipCounter++;
-          const aspectSuffix = aspectRatio === '16:9' ? '(16x9)' : '(9x16)';
-          const outputDir = aspectRatio === '16:9' ? clipsDir16x9 : clipsDir9x16;
-          const outputPath = path.join(outputDir, `${finalOutputName}-clip-${clipNumber} ${aspectSuffix}.mp4`);
-
-          // Update progress before processing each clip
-          const job = processingJobs.get(videoId);
-          if (job) {
-            job.currentClip = clipCounter;
-            job.progress = Math.round((clipCounter / totalClips) * 100);
-          }
-
-          try {
-            // Ensure directory exists for the clip
-            await fs.mkdir(path.dirname(outputPath), { recursive: true });
-            
-            console.log(`Processing clip ${clipCounter}/${totalClips}: ${timestamp.startTime} - ${timestamp.endTime} [${aspectRatio}]`);
-            
-            await processClipWithAspectRatio(
-              video.path,
-              timestamp.startTime,
-              timestamp.endTime,
-              outputPath,
-              quality,
-              aspectRatio,
-              videoId,
-              clipCounter,
-              totalClips,
-              videoFade,
-              audioFade,
-              fadeDuration
-            );
-            processedClips.push(outputPath);
-            
-            // Save clip record
-            await storage.createClip({
-              videoId: video.id,
-              filename: `${finalOutputName}-clip-${clipNumber} ${aspectSuffix}.mp4`,
-              startTime: timestamp.startTime,
-              endTime: timestamp.endTime,
-              path: outputPath
-            });
-          } catch (error) {
-            console.error(`Error processing clip ${clipCounter} [${aspectRatio}]:`, error);
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            errors.push(`Failed to process clip ${clipCounter} [${aspectRatio}]: ${errorMessage}`);
-          }
+      // Snap once at queue time so the job records (and the user sees) the times that actually get cut
+      let snapped: TimestampIssue[] = [];
+      if (options.snapToShots && validatedResult.timestamps.length > 0) {
+        if (video.sceneStatus === 'completed' && video.shotBoundaries) {
+          const snapResult = snapToShotBoundaries(validatedResult.timestamps, video.shotBoundaries, options.snapTolerance, video.frameRate ?? undefined);
+          validatedResult = { ...validatedResult, timestamps: snapResult.timestamps };
+          snapped = snapResult.snapped;
+        } else {
+          validatedResult.warnings.push({ line: 1, message: `Shot detection is ${video.sceneStatus === 'failed' ? 'unavailable' : 'still running'} for this video; clips were not snapped` });
         }
       }
 
-      // Use appropriate directories for exports
-      const outputDirForGifs = generateGif ? gifsDir : masterOutputDir;
-      const outputDirForThumbnails = generateThumbnails ? thumbnailsDir : masterOutputDir;
-      const outputDirForCanvas = generateCanvas ? canvasDir : masterOutputDir;
-
-      // Stage 2: Generate GIFs if requested
-      if (generateGif) {
-        try {
-          console.log('🎬 Generating GIF exports...');
-          
-          // Update progress for GIF generation start
-          const job = processingJobs.get(videoId);
-          if (job) {
-            job.status = 'processing';
-            job.progress = Math.round((validatedResult.valid.length / totalItems) * 100);
-          }
-          
-          const gifPaths = await generateGifExport(video.path, finalOutputName, outputDirForGifs, video.duration, videoId);
-          if (gifPaths.length > 0) {
-            processedClips.push(...gifPaths);
-            console.log(`✅ ${gifPaths.length} GIFs generated successfully`);
-          }
-        } catch (error) {
-          console.error('❌ GIF generation failed:', error);
-          errors.push('Failed to generate GIFs');
+      // Clips with an image background need the artwork uploaded before the job is queued
+      const needsBackground = validatedResult.timestamps.length > 0 && options.aspectRatios.some(ratio => options.fitModes[ratio] === 'image');
+      if (needsBackground) {
+        const backgroundFound = options.backgroundImage
+          ? await fs.stat(path.join(BACKGROUNDS_DIR, options.backgroundImage)).then(() => true, () => false)
+          : false;
+        if (!backgroundFound) {
+          return res.status(400).json({
+            success: false,
+            message: 'Upload a background image to use the image background fill mode'
+          });
         }
       }
 
-      // Stage 2: Generate Thumbnails if requested
-      if (generateThumbnails) {
-        try {
-          console.log('📸 Generating thumbnail exports...');
-          
-          // Update progress for thumbnail generation start
-          const job = processingJobs.get(videoId);
-          if (job) {
-            job.status = 'processing';
-            const itemsCompleted = validatedResult.valid.length + (generateGif ? 1 : 0);
-            job.progress = Math.round((itemsCompleted / totalItems) * 100);
-          }
-          
-          const thumbnailPaths = await generateThumbnailExports(video.path, finalOutputName, outputDirForThumbnails, video.duration, videoId);
-          if (thumbnailPaths.length > 0) {
-            processedClips.push(...thumbnailPaths);
-            console.log(`✅ Generated ${thumbnailPaths.length} thumbnails`);
-          }
-        } catch (error) {
-          console.error('❌ Thumbnail generation failed:', error);
-          errors.push('Failed to generate thumbnails');
-        }
-      }
+      // The seed is fixed on the job so its GIF and Canvas picks can be reproduced later
+      const seed = options.seed ?? generateSeed();
+      const autoRanges = pickAutoRanges(video, seed, options.gif, options.canvas);
 
-      // Stage 3: Generate Spotify Canvas if requested
-      if (generateCanvas) {
-        try {
-          console.log(`🎵 Generating Spotify Canvas exports...`);
-          const job = processingJobs.get(videoId);
-          if (job) {
-            job.status = 'processing';
-            const itemsCompleted = validatedResult.valid.length + (generateGif ? 1 : 0) + (generateThumbnails ? 1 : 0);
-            job.progress = Math.round((itemsCompleted / totalItems) * 100);
-          }
-          
-          const canvasPaths = await generateCanvasExports(video.path, finalOutputName, outputDirForCanvas, timestampToSeconds(video.duration), videoId);
-          if (canvasPaths.length > 0) {
-            processedClips.push(...canvasPaths);
-            console.log(`✅ Generated ${canvasPaths.length} Canvas loops`);
-          }
-        } catch (error) {
-          console.error('❌ Canvas generation failed:', error);
-          errors.push('Failed to generate Canvas loops');
-        }
-      }
+      // Totals are fixed when the job is queued so progress can be reported against them
+      const totalClips = validatedResult.timestamps.length * options.aspectRatios.length;
+      const totalGifs = generateGif ? autoRanges.gifs.length * options.gif.formats.length : 0;
+      const totalThumbnails = generateThumbnails ? options.thumbnails.count * options.thumbnails.presets.length * options.thumbnails.formats.length : 0;
+      const totalCanvas = generateCanvas ? autoRanges.canvas.length : 0;
 
-      // Check if we have any output at all (clips, GIFs, thumbnails, or Canvas) - AFTER processing
-      if (processedClips.length === 0) {
-        return res.status(500).json({
-          success: false,
-          message: 'No content was generated - no clips, GIFs, thumbnails, or Canvas loops were processed',
-          errors
-        });
-      }
-
-      // Create ZIP file with appropriate naming
-      const zip = new AdmZip();
-      let zipSuffix = 'clips'; // Default suffix
-      
-      // Determine suffix based on content type
-      if (validatedResult.valid.length > 0) {
-        // If clips exist, use "clips" suffix regardless of other content
-        zipSuffix = 'clips';
-      } else if (generateCanvas) {
-        // Canvas takes priority over other exports when no clips
-        zipSuffix = 'canvas';
-      } else if (generateGif && generateThumbnails) {
-        // Both GIFs and thumbnails, no clips or canvas
-        zipSuffix = 'exports';
-      } else if (generateGif) {
-        // Only GIFs
-        zipSuffix = 'gifs';
-      } else if (generateThumbnails) {
-        // Only thumbnails
-        zipSuffix = 'thumbnails';
-      }
-      
-      const zipName = `${finalOutputName}-${zipSuffix}.zip`;
-      const zipPath = path.join('uploads', 'clips', zipName);
-      
-      console.log(`📦 Creating ZIP file: ${zipName} with organized folder structure`);
-
-      // Add files to ZIP with proper folder structure
-      for (const clipPath of processedClips) {
-        const clipName = path.basename(clipPath);
-        const relativePath = path.relative(masterOutputDir, clipPath);
-        const folderInZip = path.dirname(relativePath);
-        
-        // Add file with its folder structure
-        if (folderInZip === '.' || folderInZip === '') {
-          zip.addLocalFile(clipPath, '', clipName);
-          console.log(`📁 Added to ZIP root: ${clipName}`);
-        } else {
-          zip.addLocalFile(clipPath, folderInZip + '/', clipName);
-          console.log(`📁 Added to ZIP folder '${folderInZip}': ${clipName}`);
-        }
-      }
-
-      zip.writeZip(zipPath);
-
-      // Mark as completed
-      processingJobs.set(videoId, {
-        totalClips: validatedResult.valid.length,
-        totalGifs: generateGif ? 10 : 0,
-        totalThumbnails: generateThumbnails ? 10 : 0,
-        totalCanvas: generateCanvas ? 5 : 0,
-        totalOutputs: validatedResult.valid.length + (generateGif ? 10 : 0) + (generateThumbnails ? 10 : 0) + (generateCanvas ? 5 : 0),
-        currentClip: validatedResult.valid.length,
-        progress: 100,
-        status: 'completed',
-        errors: [...errors],
-        downloadPath: `/api/download/${path.basename(zipPath)}`
+      const job = await storage.createJob({
+        videoId: video.id,
+        options: { ...options, seed, timestamps: validatedResult.timestamps.map(({ startTime, endTime, label, cropOffset }) => ({ startTime, endTime, label, cropOffset })) },
+        totalClips,
+        totalGifs,
+        totalThumbnails,
+        totalCanvas,
+        totalOutputs: totalClips + totalGifs + totalThumbnails + totalCanvas,
       });
 
-      res.json({
+      res.status(202).json({
         success: true,
-        message: `Successfully processed ${processedClips.length} items`,
-        clipsProcessed: processedClips.length,
-        downloadPath: `/api/download/${path.basename(zipPath)}`,
-        errors: errors.length > 0 ? errors : undefined
+        jobId: job.id,
+        job,
+        seed,
+        warnings: validatedResult.warnings.map(formatTimestampIssue),
+        snapped: snapped.map(formatTimestampIssue)
       });
-
     } catch (error) {
-      console.error('Direct processing error:', error);
+      console.error('Create job error:', error);
       res.status(500).json({ 
         success: false, 
-        message: 'Failed to process clips', 
-        error: error.message 
+        message: 'Failed to queue processing job' 
       });
     }
   });
 
-  app.post("/api/process-clips", async (req, res) => {
-    try {
-      const { videoId, timestamps, outputName, quality = 'balanced' } = req.body;
-      
-      const video = await storage.getVideo(videoId);
-      if (!video) {
-        return res.status(404).json({ message: "Video not found" });
-      }
-
-      const validatedTimestamps = timestampListSchema.parse(timestamps);
-      
-      // Create clips directory
-      const clipsDir = path.join('uploads', `${outputName}_CUTS`);
-      await fs.mkdir(clipsDir, { recursive: true });
-
-      const clips = [];
-      const processingErrors = [];
-
-      for (let i = 0; i < validatedTimestamps.length; i++) {
-        const timestamp = validatedTimestamps[i];
-        const clipFilename = `${outputName}-clip-${String(i + 1).padStart(2, '0')}.mp4`;
-        const clipPath = path.join(clipsDir, clipFilename);
-
-        try {
-          await processClip(video.path, timestamp.startTime, timestamp.endTime, clipPath, quality);
-          
-          const clip = await storage.createClip({
-            videoId: video.id,
-            startTime: timestamp.startTime,
-            endTime: timestamp.endTime,
-            filename: clipFilename,
-            path: clipPath,
-          });
-
-          clips.push(clip);
-        } catch (error) {
-          console.error(`Error processing clip ${i + 1}:`, error);
-          processingErrors.push(`Failed to process clip ${i + 1}: ${error.message}`);
-        }
-      }
-
-      // Create zip file
-      const zip = new AdmZip();
-      for (const clip of clips) {
-        if (clip.path) {
-          zip.addLocalFile(clip.path, '', clip.filename);
-        }
-      }
-
-      const zipPath = path.join('uploads', `${outputName}.zip`);
-      zip.writeZip(zipPath);
-
-      // Update video as processed
-      await storage.updateVideo(video.id, { processed: true });
-
-      res.json({
-        success: true,
-        clipsProcessed: clips.length,
-        errors: processingErrors,
-        downloadPath: `/api/download/${path.basename(zipPath)}`
-      });
-
-    } catch (error) {
-      console.error('Process clips error:', error);
-      res.status(500).json({ message: "Failed to process clips" });
-    }
-  });
-
   // Download endpoint
   app.get("/api/download/:filename", async (req, res) => {
     try {
@@ -824,761 +999,149 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Progress polling endpoint
-  app.get("/api/processing-progress/:videoId", async (req, res) => {
+  // Preview the GIF and Canvas sections a seed picks; queueing a job with the same seed renders exactly these
+  app.get("/api/video/:id/auto-ranges", async (req, res) => {
     try {
-      const videoId = parseInt(req.params.videoId);
-      const progress = processingJobs.get(videoId);
-      
-      if (!progress) {
-        return res.status(404).json({ message: "No processing job found for this video" });
+      const seed = req.query.seed !== undefined ? Number(req.query.seed) : generateSeed();
+      if (!isValidSeed(seed)) {
+        return res.status(400).json({ message: `Seed must be a whole number from 0 to ${MAX_SEED}` });
+      }
+      const gifResult = gifOptionsSchema.pick({ count: true, duration: true }).safeParse({
+        count: req.query.gifCount !== undefined ? Number(req.query.gifCount) : undefined,
+        duration: req.query.gifDuration !== undefined ? Number(req.query.gifDuration) : undefined,
+      });
+      if (!gifResult.success) {
+        return res.status(400).json({ message: 'Invalid GIF count or duration' });
+      }
+      const canvasResult = canvasOptionsSchema.pick({ duration: true, mode: true, crossfadeDuration: true }).safeParse({
+        duration: req.query.canvasDuration !== undefined ? Number(req.query.canvasDuration) : undefined,
+        mode: req.query.canvasMode,
+        crossfadeDuration: req.query.crossfadeDuration !== undefined ? Number(req.query.crossfadeDuration) : undefined,
+      });
+      if (!canvasResult.success) {
+        return res.status(400).json({ message: 'Invalid Canvas duration or mode' });
+      }
+
+      const video = await storage.getVideo(parseInt(req.params.id));
+      if (!video) {
+        return res.status(404).json({ message: "Video not found" });
       }
 
-      res.json(progress);
+      res.json(pickAutoRanges(video, seed, gifOptionsSchema.parse(gifResult.data), canvasOptionsSchema.parse(canvasResult.data)));
     } catch (error) {
-      console.error('Progress check error:', error);
-      res.status(500).json({ message: "Failed to get progress" });
+      console.error('Preview auto ranges error:', error);
+      res.status(500).json({ message: "Failed to pick ranges" });
     }
   });
 
-  // Cancel processing endpoint
-  app.post("/api/cancel-processing/:videoId", async (req, res) => {
+  // Shot list from the scene detection pass; status stays 'analyzing' until the pass finishes
+  app.get("/api/video/:id/shots", async (req, res) => {
     try {
-      const videoId = parseInt(req.params.videoId);
-      const job = processingJobs.get(videoId);
-      
-      if (!job) {
-        return res.status(404).json({ message: "No processing job found for this video" });
+      const video = await storage.getVideo(parseInt(req.params.id));
+      if (!video) {
+        return res.status(404).json({ message: "Video not found" });
       }
 
-      // Mark job as cancelled
-      processingJobs.set(videoId, {
-        ...job,
-        status: 'error',
-        errors: [...job.errors, 'Processing cancelled by user']
-      });
-
-      res.json({ message: "Processing cancelled successfully" });
+      const boundaries = video.shotBoundaries ?? [];
+      const edges = [0, ...boundaries, ...(video.durationSeconds ? [video.durationSeconds] : [])];
+      const shots = edges.slice(0, -1).map((start, index) => ({
+        index: index + 1,
+        start,
+        end: edges[index + 1],
+        startTime: secondsToTimestamp(start),
+        endTime: secondsToTimestamp(edges[index + 1]),
+        duration: edges[index + 1] - start,
+      }));
+
+      res.json({ status: video.sceneStatus, boundaries, shots });
     } catch (error) {
-      console.error('Cancel processing error:', error);
-      res.status(500).json({ message: "Failed to cancel processing" });
+      console.error('Get shots error:', error);
+      res.status(500).json({ message: "Failed to get shot list" });
     }
   });
 
-  const httpServer = createServer(app);
-  return httpServer;
-}
-
-// Helper functions
-
-function formatDuration(seconds: number): string {
-  const hours = Math.floor(seconds / 3600);
-  const minutes = Math.floor((seconds % 3600) / 60);
-  const secs = Math.floor(seconds % 60);
-  
-  if (hours > 0) {
-    return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-  }
-  return `${minutes}:${secs.toString().padStart(2, '0')}`;
-}
+  // Job status polling endpoint
+  app.get("/api/jobs/:id", async (req, res) => {
+    try {
+      const job = await storage.getJob(parseInt(req.params.id));
 
-function parseTimestamps(text: string) {
-  const lines = text.split('\n').map(line => line.trim()).filter(line => line);
-  const timestamps = [];
-  
-  for (const line of lines) {
-    // Support various separators: dash, en-dash, comma, space
-    const rangeSeparators = /[-–,\s]+/;
-    const parts = line.split(rangeSeparators).filter(part => part.trim());
-    
-    if (parts.length >= 2) {
-      const startTime = normalizeTimestamp(parts[0].trim());
-      const endTime = normalizeTimestamp(parts[1].trim());
-      
-      if (startTime && endTime) {
-        timestamps.push({ startTime, endTime });
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
       }
-    }
-  }
-  
-  return timestamps;
-}
-
-function normalizeTimestamp(timestamp: string): string | null {
-  // Remove any extra whitespace
-  timestamp = timestamp.trim();
-  
-  // Support various time separators: colon, semicolon, period
-  const timeSeparators = /[;.]/g;
-  timestamp = timestamp.replace(timeSeparators, ':');
-  
-  // Validate format and normalize
-  const timePattern = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/;
-  const match = timestamp.match(timePattern);
-  
-  if (match) {
-    const [, minutes, seconds, hours] = match;
-    
-    if (hours) {
-      // Format: H:MM:SS or HH:MM:SS
-      return `${hours.padStart(2, '0')}:${minutes.padStart(2, '0')}:${seconds}`;
-    } else {
-      // Format: M:SS or MM:SS - assume no hours
-      return `00:${minutes.padStart(2, '0')}:${seconds}`;
-    }
-  }
-  
-  return null;
-}
 
-function validateTimestamps(timestamps: any[], videoDuration?: string) {
-  const valid = [];
-  const errors = [];
-  const warnings = [];
-  
-  const videoDurationSeconds = videoDuration ? timestampToSeconds(videoDuration) : null;
-  
-  for (let i = 0; i < timestamps.length; i++) {
-    const { startTime, endTime } = timestamps[i];
-    const startSeconds = timestampToSeconds(startTime);
-    const endSeconds = timestampToSeconds(endTime);
-    
-    // Validate start < end
-    if (startSeconds >= endSeconds) {
-      errors.push(`Clip ${i + 1}: Start time must be before end time`);
-      continue;
-    }
-    
-    // Validate against video duration
-    if (videoDurationSeconds) {
-      if (endSeconds > videoDurationSeconds) {
-        errors.push(`Clip ${i + 1}: End time exceeds video duration`);
-        continue;
-      }
-    }
-    
-    // Check for overlaps with previous clips (informational only)
-    for (let j = 0; j < valid.length; j++) {
-      const prevClip = valid[j];
-      const prevStartSeconds = timestampToSeconds(prevClip.startTime);
-      const prevEndSeconds = timestampToSeconds(prevClip.endTime);
-      
-      // Check if clips overlap
-      if (startSeconds < prevEndSeconds && endSeconds > prevStartSeconds) {
-        const overlapStart = Math.max(startSeconds, prevStartSeconds);
-        const overlapEnd = Math.min(endSeconds, prevEndSeconds);
-        const overlapDuration = overlapEnd - overlapStart;
-        
-        warnings.push(`Clip ${i + 1} overlaps with clip ${j + 1} by ${overlapDuration.toFixed(1)} seconds`);
-      }
-    }
-    
-    // Add black frame warnings
-    if (startSeconds % 1 === 0 && startSeconds > 0) {
-      warnings.push(`Clip ${i + 1}: Starting at exact second (${startTime}) may show black frames. We'll automatically nudge it forward 0.1s for cleaner cuts.`);
-    }
-    
-    if (startSeconds < 1) {
-      warnings.push(`Clip ${i + 1}: Very early start time (${startTime}) may be in fade-in area. Black frame protection is active.`);
-    }
-    
-    if (startSeconds === 0) {
-      warnings.push(`Clip ${i + 1}: Starting at 0:00 often contains black frames. Consider starting at 0:01 or later.`);
+      res.json(job);
+    } catch (error) {
+      console.error('Job status error:', error);
+      res.status(500).json({ message: "Failed to get job status" });
     }
-    
-    valid.push({ startTime, endTime });
-  }
-  
-  return { valid, errors, warnings };
-}
-
-function timestampToSeconds(timestamp: string): number {
-  const parts = timestamp.split(':').map(Number);
-  if (parts.length === 3) {
-    return parts[0] * 3600 + parts[1] * 60 + parts[2];
-  } else if (parts.length === 2) {
-    return parts[0] * 60 + parts[1];
-  }
-  return 0;
-}
-
-// SIMPLE VALIDATION: Minimal processing to avoid hangs
-async function validateAndFinalizeClip(outputPath: string): Promise<void> {
-  console.log('✅ Clip finalized - timestamp-faithful processing complete');
-  return Promise.resolve();
-}
-
-// NUCLEAR OPTION: Find actual visible frame by scanning ahead frame by frame
-async function findActualVisibleFrame(inputPath: string, startTimeSeconds: number): Promise<{ frameOffset: number; skipReason: string }> {
-  return new Promise((resolve) => {
-    let frameNum = 0;
-    const maxFrames = 30; // Check up to 1 second worth of frames
-    
-    const checkNextFrame = () => {
-      if (frameNum >= maxFrames) {
-        resolve({ frameOffset: 15, skipReason: 'Max frames checked, using safe 15-frame offset' });
-        return;
-      }
-      
-      const timeToCheck = startTimeSeconds + (frameNum / 30);
-      const tempFramePath = `/tmp/check_${Date.now()}_${frameNum}.jpg`;
-      
-      // Extract single frame at high quality for analysis
-      ffmpeg(inputPath)
-        .seekInput(timeToCheck)
-        .outputOptions([
-          '-vframes', '1',
-          '-f', 'image2',
-          '-q:v', '1', // Highest quality
-          '-vf', 'scale=200:200' // Larger scale for better analysis
-        ])
-        .save(tempFramePath)
-        .on('end', async () => {
-          try {
-            const fs = await import('fs');
-            const stats = await fs.promises.stat(tempFramePath);
-            
-            // More stringent check: frame must be reasonably large AND pass blackdetect
-            if (stats.size > 3000) { // Larger threshold for 200x200 image
-              // Additional verification with blackdetect
-              ffmpeg(tempFramePath)
-                .outputOptions([
-                  '-vf', 'blackdetect=d=0.01:pix_th=0.03', // Stricter threshold
-                  '-f', 'null',
-                  '-'
-                ])
-                .on('stderr', (stderrLine) => {
-                  if (stderrLine.includes('black_start:0')) {
-                    // Still black, try next frame
-                    fs.promises.unlink(tempFramePath).catch(() => {});
-                    frameNum++;
-                    checkNextFrame();
-                  } else {
-                    // Found visible frame!
-                    fs.promises.unlink(tempFramePath).catch(() => {});
-                    resolve({ 
-                      frameOffset: frameNum, 
-                      skipReason: `Found visible content at frame ${frameNum} (${(frameNum/30).toFixed(3)}s offset)`
-                    });
-                  }
-                })
-                .on('end', () => {
-                  // No black detected - frame is good
-                  fs.promises.unlink(tempFramePath).catch(() => {});
-                  resolve({ 
-                    frameOffset: frameNum, 
-                    skipReason: `Found clean frame at ${frameNum} (${(frameNum/30).toFixed(3)}s offset)`
-                  });
-                })
-                .on('error', () => {
-                  // Analysis failed, try next frame
-                  fs.promises.unlink(tempFramePath).catch(() => {});
-                  frameNum++;
-                  checkNextFrame();
-                });
-            } else {
-              // File too small, likely black
-              await fs.promises.unlink(tempFramePath).catch(() => {});
-              frameNum++;
-              checkNextFrame();
-            }
-          } catch (error) {
-            frameNum++;
-            checkNextFrame();
-          }
-        })
-        .on('error', () => {
-          frameNum++;
-          checkNextFrame();
-        });
-    };
-    
-    checkNextFrame();
-  });
-}
-
-// Auto-detect and remove letterboxing from video
-async function detectAndRemoveLetterboxing(inputPath: string, startTime: string, duration: number): Promise<string> {
-  return new Promise((resolve, reject) => {
-    // Analyze a sample from the middle of the clip to detect black bars
-    const sampleTime = timestampToSeconds(startTime) + (duration / 2);
-    
-    console.log(`🔍 Analyzing letterboxing at ${sampleTime}s...`);
-    
-    ffmpeg(inputPath)
-      .inputOptions(['-ss', sampleTime.toString()])
-      .outputOptions([
-        '-vf', 'cropdetect=24:16:0',
-        '-f', 'null',
-        '-t', '1'  // Analyze just 1 second
-      ])
-      .on('stderr', (stderrLine) => {
-        // Look for cropdetect output: crop=w:h:x:y
-        const cropMatch = stderrLine.match(/crop=(\d+):(\d+):(\d+):(\d+)/);
-        if (cropMatch) {
-          const [, width, height, x, y] = cropMatch;
-          const cropFilter = `crop=${width}:${height}:${x}:${y}`;
-          console.log(`✅ Detected letterboxing, applying: ${cropFilter}`);
-          resolve(cropFilter);
-        }
-      })
-      .on('end', () => {
-        // If no crop detected, return empty string (no letterboxing)
-        console.log(`ℹ️ No letterboxing detected, using full frame`);
-        resolve('');
-      })
-      .on('error', (error) => {
-        console.warn(`⚠️ Letterbox detection failed, proceeding without crop:`, error.message);
-        resolve(''); // Fallback to no crop
-      })
-      .save('/dev/null');
   });
-}
 
-// Process clip with aspect ratio support including 9:16 motion tracking
-function processClipWithAspectRatio(
-  inputPath: string,
-  startTime: string,
-  endTime: string,
-  outputPath: string,
-  quality: string = 'balanced',
-  aspectRatio: '16:9' | '9:16',
-  videoId?: number,
-  clipIndex?: number,
-  totalClips?: number,
-  videoFade: boolean = false,
-  audioFade: boolean = false,
-  fadeDuration: number = 0.5
-): Promise<void> {
-  return new Promise(async (resolve, reject) => {
+  // Export history for a video, newest first
+  app.get("/api/video/:id/jobs", async (req, res) => {
     try {
-      // Calculate clip duration
-      const start = timestampToSeconds(startTime);
-      const end = timestampToSeconds(endTime);
-      const duration = end - start;
-      
-      // Build video filter chain based on aspect ratio
-      let videoFilters: string[] = [];
-      
-      if (aspectRatio === '9:16') {
-        // For 9:16, first detect and remove any letterboxing
-        const letterboxCrop = await detectAndRemoveLetterboxing(inputPath, startTime, duration);
-        
-        if (letterboxCrop) {
-          // Apply letterbox removal first, then scale and crop for 9:16
-          videoFilters = [
-            letterboxCrop, // Remove detected black bars
-            'scale=1080:1920:force_original_aspect_ratio=increase', // Scale to fill 9:16
-            'crop=1080:1920:(iw-1080)/2:(ih-1920)/2' // Center crop to exact 9:16
-          ];
-        } else {
-          // No letterboxing detected, direct 9:16 conversion
-          videoFilters = [
-            'scale=1080:1920:force_original_aspect_ratio=increase',
-            'crop=1080:1920:(iw-1080)/2:(ih-1920)/2'
-          ];
-        }
-      } else {
-        // 16:9 Standard horizontal (maintain original aspect ratio)
-        videoFilters = [
-          'scale=-2:720' // Scale to 720p height, maintain aspect ratio
-        ];
-      }
-      
-      const command = ffmpeg(inputPath);
-      
-      // Input-side seeking for frame-accurate processing
-      command.inputOptions(['-ss', startTime]);
-      
-      // Add fade effects if enabled
-      if (videoFade) {
-        videoFilters.push(`fade=t=in:st=0:d=${fadeDuration}:color=black`);
-        videoFilters.push(`fade=t=out:st=${duration - fadeDuration}:d=${fadeDuration}:color=black`);
-      }
-      
-      // Apply video filters
-      if (videoFilters.length > 0) {
-        command.videoFilters(videoFilters.join(','));
-      }
-      
-      // Audio processing
-      if (audioFade) {
-        command.audioFilters([
-          `afade=t=in:st=0:d=${fadeDuration}:curve=exp`,
-          `afade=t=out:st=${duration - fadeDuration}:d=${fadeDuration}:curve=exp`
-        ]);
-      }
-      
-      // Output settings based on quality
-      let crf = 20; // default balanced
-      if (quality === 'high') crf = 18;
-      if (quality === 'compressed') crf = 23;
-      
-      command
-        .outputOptions([
-          '-c:v', 'libx264',
-          '-crf', crf.toString(),
-          '-c:a', audioFade ? 'aac' : 'copy',
-          ...(audioFade ? ['-b:a', '128k'] : []),
-          '-preset', 'fast',
-          '-movflags', '+faststart'
-        ])
-        .duration(duration)
-        .on('start', (commandLine) => {
-          console.log(`🎬 Starting ${aspectRatio} clip processing: ${path.basename(outputPath)}`);
-          console.log(`🔧 FFmpeg command: ${commandLine}`);
-        })
-        .on('progress', (progress) => {
-          if (progress.percent && clipIndex && totalClips) {
-            const clipProgress = Math.round(progress.percent);
-            console.log(`⏳ ${aspectRatio} Progress: ${clipProgress}% (${clipIndex}/${totalClips})`);
-          }
-        })
-        .on('end', () => {
-          console.log(`✅ ${aspectRatio} clip completed: ${path.basename(outputPath)}`);
-          resolve();
-        })
-        .on('error', async (error) => {
-          console.error(`❌ ${aspectRatio} processing failed:`, error);
-          // For 9:16 format, try a simpler fallback approach
-          if (aspectRatio === '9:16') {
-            console.log(`🔄 Attempting 9:16 fallback with letterbox removal...`);
-            try {
-              const letterboxCrop = await detectAndRemoveLetterboxing(inputPath, startTime, duration);
-              const fallbackCommand = ffmpeg(inputPath);
-              fallbackCommand.inputOptions(['-ss', startTime]);
-              
-              // Fallback filters with letterbox removal
-              const fallbackFilters = [];
-              if (letterboxCrop) {
-                fallbackFilters.push(letterboxCrop);
-              }
-              fallbackFilters.push('scale=2160:3840:force_original_aspect_ratio=increase');
-              fallbackFilters.push('crop=1080:1920:(iw-1080)/2:(ih-1920)/2');
-              
-              fallbackCommand
-                .videoFilters(fallbackFilters)
-                .outputOptions([
-                  '-c:v', 'libx264',
-                  '-crf', '20',
-                  '-c:a', 'copy',
-                  '-preset', 'fast',
-                  '-movflags', '+faststart'
-                ])
-                .duration(duration)
-                .on('start', () => console.log(`🔄 Fallback 9:16 processing started`))
-                .on('end', () => {
-                  console.log(`✅ Fallback 9:16 clip completed: ${path.basename(outputPath)}`);
-                  resolve();
-                })
-                .on('error', (fallbackError) => {
-                  console.error(`❌ Fallback 9:16 processing also failed:`, fallbackError);
-                  reject(fallbackError);
-                })
-                .save(outputPath);
-            } catch (fallbackError) {
-              reject(fallbackError);
-            }
-          } else {
-            reject(error);
-          }
-        })
-        .save(outputPath);
+      const jobs = await storage.getJobsByVideoId(parseInt(req.params.id));
+      res.json(jobs);
     } catch (error) {
-      reject(error);
+      console.error('List jobs error:', error);
+      res.status(500).json({ message: "Failed to list jobs" });
     }
   });
-}
 
-function processClip(inputPath: string, startTime: string, endTime: string, outputPath: string, quality: string, videoId?: number, clipIndex?: number, totalClips?: number, videoFade?: boolean, audioFade?: boolean, fadeDuration?: number): Promise<void> {
-  return new Promise(async (resolve, reject) => {
-    let crf = 20; // default balanced
-    if (quality === 'high') crf = 18;
-    if (quality === 'compressed') crf = 23;
-    
-    // Calculate original timing
-    const originalStartSeconds = timestampToSeconds(startTime);
-    const endSeconds = timestampToSeconds(endTime);
-    const originalDuration = endSeconds - originalStartSeconds;
-    
-    console.log(`🔍 FRAME VALIDATION: Analyzing frame=0 for black frame injection at ${startTime}`);
-    console.log(`📐 Duration: ${originalDuration}s - validating encoder pipeline integrity`);
-    
-    // First pass: Create clip with comprehensive frame validation
-    const tempOutputPath = outputPath + '.temp.mp4';
-    
+  // Cancel job endpoint
+  app.post("/api/jobs/:id/cancel", async (req, res) => {
     try {
-      console.log(`🎯 ENCODE PIPELINE FIX: Implementing buffer alignment and frame validation`);
-      
-      // KEYFRAME-LEVEL FAST SEEKING FIX: Move -ss before input per your analysis
-      const debugCommand = `ffmpeg -ss ${startTime} -i "${inputPath}" -t ${originalDuration} -c:v libx264 -preset fast -c:a copy "${tempOutputPath}"`;
-      console.log(`🔍 DEBUG COMMAND (FIXED): ${debugCommand}`);
-      
-      // Build filter arguments for fade effects
-      const outputOptions = [
-        '-t', originalDuration.toString(),
-        '-c:v', 'libx264',
-        '-preset', 'veryfast',  // Faster preset to avoid stalls
-        '-crf', crf.toString(),
-        '-c:a', (audioFade ? 'aac' : 'copy'),  // Only re-encode audio if fading
-        ...(audioFade ? ['-b:a', '128k'] : [])  // Set audio bitrate only if re-encoding
-      ];
+      const job = await storage.getJob(parseInt(req.params.id));
 
-      // Add video fade filters if requested
-      if (videoFade && fadeDuration) {
-        // Cross dissolve: fade in at start, fade out at end
-        const fadeInOut = `fade=t=in:st=0:d=${fadeDuration}:color=black,fade=t=out:st=${originalDuration - fadeDuration}:d=${fadeDuration}:color=black`;
-        outputOptions.push('-vf', fadeInOut);
-        console.log(`🎬 VIDEO FADE: Applied ${fadeDuration}s cross dissolve transitions`);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
       }
-      
-      // Add audio fade filters if requested
-      if (audioFade && fadeDuration) {
-        // Exponential audio fade for smooth music transitions
-        const audioFadeInOut = `afade=t=in:st=0:d=${fadeDuration}:curve=exp,afade=t=out:st=${originalDuration - fadeDuration}:d=${fadeDuration}:curve=exp`;
-        outputOptions.push('-af', audioFadeInOut);
-        console.log(`🎵 AUDIO FADE: Applied ${fadeDuration}s exponential audio curves`);
+
+      if (job.status !== 'queued' && job.status !== 'processing') {
+        return res.status(409).json({ message: `Job already ${job.status}` });
       }
 
-      // FAST SEEKING: Apply -ss before input to enable keyframe-level seeking
-      const ffmpegProcess = ffmpeg()
-        .input(inputPath)
-        .inputOptions(['-ss', startTime])  // CRITICAL FIX: -ss before input enables fast seeking
-        .outputOptions(outputOptions);
-      
-      ffmpegProcess.save(tempOutputPath);
-      
-      console.log(`🎯 PROCESSING: ${videoFade ? 'Video fade' : 'No video fade'}, ${audioFade ? 'Audio fade' : 'No audio fade'}, Duration: ${fadeDuration}s`);
-      
-      // ADD TIMEOUT MECHANISM: Prevent indefinite stalls
-      const timeoutId = setTimeout(() => {
-        console.log(`⏰ TIMEOUT: FFmpeg stalled for >120s, killing process`);
-        ffmpegProcess.kill('SIGKILL');
-        reject(new Error('FFmpeg timeout - process stalled'));
-      }, 120000); // 120 second timeout for fade processing
-      
-      ffmpegProcess
-        .on('progress', (progress) => {
-          if (videoId && clipIndex !== undefined && totalClips) {
-            const job = processingJobs.get(videoId);
-            if (job) {
-              const clipProgress = Math.round(progress.percent || 0);
-              const overallProgress = Math.round(((clipIndex) + (clipProgress / 100)) / totalClips * 100);
-              job.progress = Math.max(0, Math.min(100, overallProgress));
-              console.log(`Processing clip ${clipIndex + 1}/${totalClips}: ${clipProgress}% done, Overall: ${job.progress}%`);
-            }
-          }
-        })
-        .on('stderr', (stderrLine) => {
-          // Minimal logging to prevent stalls
-          if (stderrLine.includes('error') || stderrLine.includes('Error') || stderrLine.includes('Failed')) {
-            console.log(`❌ ENCODING ERROR: ${stderrLine}`);
-          }
-        })
-        .on('end', async () => {
-          clearTimeout(timeoutId); // Clear timeout on successful completion
-          try {
-            // TEMPORARILY SKIP VALIDATION: Testing if this causes the 40% stall
-            console.log('🔄 SKIPPING FRAME VALIDATION: Testing for 40% stall resolution');
-            
-            // Move temp file to final output
-            const fs = await import('fs');
-            await fs.promises.rename(tempOutputPath, outputPath);
-            
-            console.log('✅ CLIP PROCESSING COMPLETED: Validation skipped for debugging');
-            resolve();
-          } catch (error) {
-            console.error('Primary encoding failed:', error);
-            
-            // FALLBACK: Extend trim start by 0.25s as suggested for stability testing
-            console.log('🔄 FALLBACK: Applying 0.25s extension for stability testing');
-            const fallbackStartSeconds = Math.max(0, originalStartSeconds - 0.25);  // Pad start backward
-            const fallbackEndSeconds = endSeconds + 0.25;  // Extend end forward
-            const fallbackStartTime = secondsToTimestamp(fallbackStartSeconds);
-            const fallbackEndTime = secondsToTimestamp(fallbackEndSeconds);
-            
-            console.log(`🎯 FALLBACK TIMING: ${fallbackStartTime} to ${fallbackEndTime} (0.25s padding each side)`);
-            
-            // FALLBACK: Also use input-side seeking for consistency
-            const fallbackDuration = fallbackEndSeconds - fallbackStartSeconds;
-            ffmpeg()
-              .input(inputPath)
-              .inputOptions(['-ss', fallbackStartTime])  // Input-side seeking for fallback too
-              .outputOptions([
-                '-t', fallbackDuration.toString(),
-                '-preset', 'veryfast',
-                '-c:v', 'libx264',
-                '-c:a', 'aac',
-                '-b:a', '128k',
-                `-crf`, crf.toString()
-              ])
-              .save(outputPath)
-              .on('end', () => {
-                // Clean up temp file
-                import('fs').then(fs => {
-                  fs.promises.unlink(tempOutputPath).catch(() => {});
-                });
-                console.log('✅ FALLBACK COMPLETED: 0.25s padding applied for stable encoding');
-                resolve();
-              })
-              .on('error', (err) => {
-                // Clean up temp file
-                import('fs').then(fs => {
-                  fs.promises.unlink(tempOutputPath).catch(() => {});
-                });
-                console.error('Fallback encoding also failed:', err);
-                reject(err);
-              });
-          }
-        })
-        .on('error', (err) => {
-          clearTimeout(timeoutId); // Clear timeout on error
-          console.error('FFmpeg encoding error:', err);
-          // Clean up temp file
-          import('fs').then(fs => {
-            fs.promises.unlink(tempOutputPath).catch(() => {});
-          });
-          reject(err);
-        });
+      const cancelledJob = await cancelJob(job);
+
+      res.json({ message: "Processing cancelled successfully", job: cancelledJob });
     } catch (error) {
-      console.error('Encoding pipeline error:', error);
-      reject(error);
+      console.error('Cancel processing error:', error);
+      res.status(500).json({ message: "Failed to cancel processing" });
     }
   });
-}
 
-// Validate frame=0 is not black before muxing
-async function validateFrame0NotBlack(videoPath: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    console.log('🔍 VALIDATING FRAME=0: Checking for black frame injection');
-    
-    // Extract frame=0 and analyze
-    const tempFramePath = videoPath + '.frame0.jpg';
-    
-    ffmpeg(videoPath)
-      .outputOptions([
-        '-vf', 'select=eq(n\\,0)',  // Select exactly frame=0
-        '-vframes', '1',
-        '-f', 'image2',
-        '-q:v', '2'  // High quality for accurate analysis
-      ])
-      .save(tempFramePath)
-      .on('end', async () => {
-        try {
-          const fs = await import('fs');
-          const stats = await fs.promises.stat(tempFramePath);
-          
-          // Check file size (black frames are typically very small)
-          if (stats.size < 2000) {
-            console.log(`❌ FRAME=0 VALIDATION FAILED: File size ${stats.size} bytes indicates black frame`);
-            await fs.promises.unlink(tempFramePath).catch(() => {});
-            reject(new Error('Black frame detected at frame=0'));
-            return;
-          }
-          
-          // Additional blackdetect validation
-          ffmpeg(tempFramePath)
-            .outputOptions([
-              '-vf', 'blackdetect=d=0.01:pix_th=0.10',  // Detect black content
-              '-f', 'null',
-              '-'
-            ])
-            .on('stderr', (stderrLine) => {
-              if (stderrLine.includes('black_start:0')) {
-                console.log(`❌ FRAME=0 VALIDATION FAILED: Blackdetect confirmed black content`);
-                fs.promises.unlink(tempFramePath).catch(() => {});
-                reject(new Error('Black frame confirmed by blackdetect'));
-              }
-            })
-            .on('end', async () => {
-              console.log(`✅ FRAME=0 VALIDATION PASSED: Size ${stats.size} bytes, no black content detected`);
-              await fs.promises.unlink(tempFramePath).catch(() => {});
-              resolve();
-            })
-            .on('error', async (error) => {
-              console.log(`⚠️ FRAME=0 VALIDATION INCONCLUSIVE: Blackdetect failed, assuming valid`);
-              await fs.promises.unlink(tempFramePath).catch(() => {});
-              resolve(); // Don't fail if blackdetect has issues
-            });
-        } catch (error) {
-          console.error('Frame validation error:', error);
-          reject(error);
-        }
-      })
-      .on('error', (error) => {
-        console.error('Frame extraction error:', error);
-        reject(error);
-      });
-  });
+  await startJobWorker();
+
+  const httpServer = createServer(app);
+  return httpServer;
 }
 
-// GET VIDEO FRAME RATE: Extract exact frame rate for precise calculations
-async function getVideoFrameRate(inputPath: string): Promise<number> {
-  return new Promise((resolve) => {
-    ffmpeg.ffprobe(inputPath, (err, metadata) => {
-      if (err) {
-        console.warn('Could not get frame rate, defaulting to 30fps');
-        resolve(30);
-        return;
-      }
-      
-      const videoStream = metadata.streams.find(s => s.codec_type === 'video');
-      if (videoStream && videoStream.r_frame_rate) {
-        const [num, den] = videoStream.r_frame_rate.split('/').map(Number);
-        const frameRate = num / den;
-        console.log(`📊 Detected frame rate: ${frameRate}fps`);
-        resolve(frameRate);
-      } else {
-        console.warn('Frame rate not found in metadata, defaulting to 30fps');
-        resolve(30);
-      }
-    });
-  });
+// Helper functions
+
+function parseTimestampMode(mode: unknown): TimestampMode {
+  return mode === 'chapters' ? 'chapters' : 'ranges';
 }
 
-function secondsToTimestamp(seconds: number): string {
+function formatDuration(seconds: number): string {
   const hours = Math.floor(seconds / 3600);
   const minutes = Math.floor((seconds % 3600) / 60);
-  const remainingSeconds = Math.floor(seconds % 60);
-  const milliseconds = Math.floor((seconds % 1) * 1000);
+  const secs = Math.floor(seconds % 60);
   
   if (hours > 0) {
-    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}.${milliseconds.toString().padStart(3, '0')}`;
-  } else {
-    return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}.${milliseconds.toString().padStart(3, '0')}`;
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   }
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+}
+
+function isValidSeed(seed: unknown): seed is number {
+  return typeof seed === 'number' && Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED;
 }
 
 // Generate random timestamp ranges for auto 5-cut feature
-function generateRandomTimestamps(videoDuration: string): Array<{ startTime: string; endTime: string }> {
+function generateRandomTimestamps(videoDuration: string, random: RandomSource): Array<{ startTime: string; endTime: string }> {
   const totalSeconds = timestampToSeconds(videoDuration);
   
   // Adaptive clip generation based on video length
-  let targetClips = 5;
-  let minClipDuration = 3; // minimum 3 seconds
-  let maxClipDuration = 15; // maximum 15 seconds
-  
-  if (totalSeconds < 30) {
-    // Very short video: create 2-3 clips of 3-5 seconds each
-    targetClips = Math.max(2, Math.floor(totalSeconds / 8));
-    minClipDuration = 3;
-    maxClipDuration = Math.min(5, totalSeconds / targetClips - 1);
-  } else if (totalSeconds < 60) {
-    // Short video: create 3-4 clips of 5-10 seconds each
-    targetClips = Math.max(3, Math.floor(totalSeconds / 15));
-    minClipDuration = 5;
-    maxClipDuration = Math.min(10, totalSeconds / targetClips - 1);
-  } else if (totalSeconds < 120) {
-    // Medium video: create 4-5 clips of 8-15 seconds each
-    targetClips = Math.max(4, Math.floor(totalSeconds / 20));
-    minClipDuration = 8;
-    maxClipDuration = Math.min(15, totalSeconds / targetClips - 1);
-  } else {
-    // Long video: create 5 clips of 15-30 seconds each
-    targetClips = 5;
-    minClipDuration = 15;
-    maxClipDuration = 30;
-  }
+  const { targetClips, minClipDuration, maxClipDuration } = planAutoCuts(totalSeconds);
   
   // Ensure we have enough video duration
   const totalNeededDuration = targetClips * minClipDuration;
@@ -1596,12 +1159,12 @@ function generateRandomTimestamps(videoDuration: string): Array<{ startTime: str
     
     while (!validClip && attempts < 50) {
       // Random clip duration within range
-      const clipDuration = Math.random() * (maxClipDuration - minClipDuration) + minClipDuration;
+      const clipDuration = random() * (maxClipDuration - minClipDuration) + minClipDuration;
       
       // Random start time (leave room for clip duration)
       const buffer = Math.min(2, totalSeconds * 0.1); // 10% buffer or 2 seconds, whichever is smaller
       const maxStartTime = totalSeconds - clipDuration - buffer;
-      const startTime = Math.random() * maxStartTime;
+      const startTime = random() * maxStartTime;
       const endTime = startTime + clipDuration;
       
       // Check for overlaps with existing clips
@@ -1629,360 +1192,3 @@ function generateRandomTimestamps(videoDuration: string): Array<{ startTime: str
   
   return timestamps;
 }
-
-// Stage 2: GIF Export Function - Generate 10 GIFs from random sections
-async function generateGifExport(inputPath: string, baseName: string, outputDir: string, videoDuration?: string, videoId?: number): Promise<string[]> {
-  return new Promise(async (resolve, reject) => {
-    try {
-      console.log('🎬 Generating 10 GIFs from random sections at 640x480 with palette optimization...');
-      
-      // Calculate video duration in seconds
-      let durationSeconds = 60; // default fallback
-      if (videoDuration) {
-        durationSeconds = timestampToSeconds(videoDuration);
-      }
-      
-      // Ensure we have enough video for 10 6-second clips
-      if (durationSeconds < 60) {
-        console.log('⚠️ Video too short for 10 GIFs, generating fewer GIFs');
-      }
-      
-      const gifPaths: string[] = [];
-      const promises: Promise<string>[] = [];
-      const usedRanges: Array<{ start: number; end: number }> = [];
-      
-      // Generate up to 10 GIFs from random sections
-      const numGifs = Math.min(10, Math.floor(durationSeconds / 6));
-      
-      for (let i = 0; i < numGifs; i++) {
-        const gifNumber = String(i + 1).padStart(2, '0');
-        
-        // Find a random start time that doesn't overlap with existing GIFs
-        let startTime = 0;
-        let attempts = 0;
-        let validPosition = false;
-        
-        while (!validPosition && attempts < 50) {
-          // Random start time (leave 6 seconds for the GIF duration)
-          startTime = Math.random() * (durationSeconds - 6);
-          const endTime = startTime + 6;
-          
-          // Check for overlaps with existing GIFs
-          const overlap = usedRanges.some(range => 
-            (startTime < range.end && endTime > range.start)
-          );
-          
-          if (!overlap) {
-            usedRanges.push({ start: startTime, end: endTime });
-            validPosition = true;
-          }
-          
-          attempts++;
-        }
-        
-        const gifOutputPath = path.join(outputDir, `${baseName}-gif-${gifNumber}.gif`);
-        
-        const promise = new Promise<string>((resolveGif, rejectGif) => {
-          // Generate palette first
-          const paletteCommand = ffmpeg(inputPath)
-            .inputOptions(['-ss', startTime.toString()])
-            .outputOptions([
-              '-t', '6',
-              '-vf', 'fps=10,scale=640:480:flags=lanczos,palettegen=stats_mode=diff',
-              '-y'
-            ]);
-          
-          const palettePath = gifOutputPath + '.palette.png';
-          
-          paletteCommand
-            .save(palettePath)
-            .on('end', () => {
-              // Second pass: create GIF using the generated palette
-              ffmpeg(inputPath)
-                .inputOptions(['-ss', startTime.toString()])
-                .addInput(palettePath)
-                .outputOptions([
-                  '-t', '6',
-                  '-filter_complex', 'fps=10,scale=640:480:flags=lanczos[x];[x][1:v]paletteuse=dither=bayer:bayer_scale=5:diff_mode=rectangle',
-                  '-y'
-                ])
-                .save(gifOutputPath)
-                .on('end', async () => {
-                  try {
-                    // Clean up palette file
-                    const fs = await import('fs');
-                    await fs.promises.unlink(palettePath).catch(() => {});
-                    console.log(`✅ GIF ${i + 1}/10 generated from ${startTime.toFixed(1)}s`);
-                    
-                    // Update progress for each completed GIF (don't update currentClip as it's for cutdowns only)
-                    if (videoId) {
-                      const job = processingJobs.get(videoId);
-                      if (job) {
-                        const completedItems = job.totalClips + (i + 1);
-                        job.progress = Math.min(95, Math.round((completedItems / job.totalOutputs) * 100));
-                      }
-                    }
-                    
-                    resolveGif(gifOutputPath);
-                  } catch (error) {
-                    rejectGif(error);
-                  }
-                })
-                .on('error', (error) => {
-                  console.error(`❌ GIF ${i + 1} palette application failed:`, error);
-                  rejectGif(error);
-                });
-            })
-            .on('error', (error) => {
-              console.error(`❌ GIF ${i + 1} palette generation failed:`, error);
-              rejectGif(error);
-            });
-        });
-        
-        promises.push(promise);
-      }
-      
-      // Wait for all GIFs to complete
-      const results = await Promise.allSettled(promises);
-      
-      // Collect successful GIFs
-      results.forEach((result, index) => {
-        if (result.status === 'fulfilled') {
-          gifPaths.push(result.value);
-        } else {
-          console.error(`GIF ${index + 1} failed:`, result.reason);
-        }
-      });
-      
-      console.log(`✅ GIF generation complete: ${gifPaths.length}/${numGifs} successful`);
-      resolve(gifPaths);
-      
-    } catch (error) {
-      console.error('❌ GIF export failed:', error);
-      reject(error);
-    }
-  });
-}
-
-// Stage 2: Thumbnail Export Function
-async function generateThumbnailExports(inputPath: string, baseName: string, outputDir: string, videoDuration?: string, videoId?: number): Promise<string[]> {
-  return new Promise(async (resolve, reject) => {
-    try {
-      console.log('📸 Generating 10 high-quality thumbnail stills...');
-      
-      // Calculate video duration in seconds
-      let durationSeconds = 60; // default fallback
-      if (videoDuration) {
-        durationSeconds = timestampToSeconds(videoDuration);
-      }
-      
-      const thumbnailPaths: string[] = [];
-      const promises: Promise<string>[] = [];
-      
-      // Generate 10 evenly spaced thumbnails
-      for (let i = 0; i < 10; i++) {
-        const timePosition = (i + 1) * (durationSeconds / 11); // Skip very start and end
-        const thumbnailNumber = String(i + 1).padStart(2, '0');
-        const thumbnailPath = path.join(outputDir, `${baseName}-thumb-${thumbnailNumber}.jpg`);
-        
-        const promise = new Promise<string>((resolveThumb, rejectThumb) => {
-          ffmpeg(inputPath)
-            .seekInput(timePosition)
-            .outputOptions([
-              '-vframes', '1',
-              '-f', 'image2',
-              '-q:v', '2',  // High quality
-              '-vf', 'scale=1920:1080:force_original_aspect_ratio=decrease:flags=lanczos',  // High resolution with aspect ratio preservation
-              '-y'
-            ])
-            .save(thumbnailPath)
-            .on('end', () => {
-              console.log(`✅ Thumbnail ${i + 1}/10 generated at ${timePosition.toFixed(1)}s`);
-              
-              // Update progress for each completed thumbnail
-              if (videoId) {
-                const job = processingJobs.get(videoId);
-                if (job) {
-                  const completedItems = job.totalClips + job.totalGifs + (i + 1);
-                  job.progress = Math.min(95, Math.round((completedItems / job.totalOutputs) * 100));
-                }
-              }
-              
-              resolveThumb(thumbnailPath);
-            })
-            .on('error', (error) => {
-              console.error(`❌ Thumbnail ${i + 1} failed:`, error);
-              rejectThumb(error);
-            });
-        });
-        
-        promises.push(promise);
-      }
-      
-      // Wait for all thumbnails to complete
-      const results = await Promise.allSettled(promises);
-      
-      // Collect successful thumbnails
-      results.forEach((result, index) => {
-        if (result.status === 'fulfilled') {
-          thumbnailPaths.push(result.value);
-        } else {
-          console.error(`Thumbnail ${index + 1} failed:`, result.reason);
-        }
-      });
-      
-      console.log(`✅ Thumbnail generation complete: ${thumbnailPaths.length}/10 successful`);
-      resolve(thumbnailPaths);
-      
-    } catch (error) {
-      console.error('❌ Thumbnail export failed:', error);
-      reject(error);
-    }
-  });
-}
-
-// Generate Spotify Canvas exports (5 vertical 1080x1920 8-second loops)
-async function generateCanvasExports(videoPath: string, outputBaseName: string, outputDir: string, videoDuration: number, videoId?: number): Promise<string[]> {
-  return new Promise((resolve, reject) => {
-    const canvasPaths: string[] = [];
-    let completed = 0;
-    const totalCount = 5;
-    
-    console.log(`🎵 Generating ${totalCount} Spotify Canvas loops (1080x1920, 8s each)...`);
-    
-    // Generate 5 random 4-second segments with overlap detection
-    const segments: { start: number; startTime: string }[] = [];
-    const maxStartTime = Math.max(10, videoDuration - 4); // Leave at least 4 seconds from end
-    
-    while (segments.length < totalCount) {
-      const startSeconds = Math.random() * maxStartTime;
-      const startTime = secondsToTimestamp(startSeconds);
-      
-      // Check for overlap (minimum 2 seconds apart)
-      const hasOverlap = segments.some(seg => Math.abs(seg.start - startSeconds) < 2);
-      if (!hasOverlap) {
-        segments.push({ start: startSeconds, startTime });
-      }
-    }
-    
-    // Process each Canvas loop
-    segments.forEach((segment, index) => {
-      const canvasNumber = String(index + 1).padStart(2, '0');
-      const outputPath = path.join(outputDir, `${outputBaseName}-canvas-${canvasNumber}.mp4`);
-      
-      console.log(`🎬 Canvas ${canvasNumber}/05: Creating 8s loop from ${segment.startTime} (4s forward + 4s reversed)`);
-      
-      // Create temporary files for the forward and reversed segments
-      const forwardPath = outputPath.replace('.mp4', '_forward.mp4');
-      const reversedPath = outputPath.replace('.mp4', '_reversed.mp4');
-      
-      // Step 1: Extract 4-second forward segment with vertical crop and resize
-      ffmpeg(videoPath)
-        .inputOptions(['-ss', segment.startTime])
-        .outputOptions([
-          '-t', '4',           // 4 seconds duration
-          '-vf', 'scale=1080:1920:force_original_aspect_ratio=increase,crop=1080:1920', // Vertical format
-          '-c:v', 'libx264',
-          '-preset', 'fast',
-          '-crf', '20',
-          '-an'                // Remove audio completely
-        ])
-        .on('end', () => {
-          console.log(`✅ Forward segment ${canvasNumber} completed`);
-          
-          // Step 2: Create reversed version of the forward segment
-          ffmpeg(forwardPath)
-            .outputOptions([
-              '-vf', 'reverse',  // Reverse video
-              '-c:v', 'libx264',
-              '-preset', 'fast',
-              '-crf', '20',
-              '-an'              // Ensure no audio
-            ])
-            .on('end', async () => {
-              console.log(`✅ Reversed segment ${canvasNumber} completed`);
-              
-              // Step 3: Concatenate forward + reversed for seamless 8-second loop
-              const concatList = `file '${path.basename(forwardPath)}'\nfile '${path.basename(reversedPath)}'`;
-              const concatFilePath = outputPath.replace('.mp4', '_concat.txt');
-              
-              const fs = await import('fs');
-              fs.writeFileSync(concatFilePath, concatList);
-              
-              ffmpeg(concatFilePath)
-                .inputOptions(['-f', 'concat', '-safe', '0'])
-                .outputOptions([
-                  '-c:v', 'libx264',
-                  '-preset', 'fast',
-                  '-crf', '20',
-                  '-movflags', '+faststart', // Optimize for streaming
-                  '-an'                      // Ensure no audio in final output
-                ])
-                .on('end', async () => {
-                  // Cleanup temporary files
-                  try {
-                    await fs.promises.unlink(forwardPath);
-                    await fs.promises.unlink(reversedPath);
-                    await fs.promises.unlink(concatFilePath);
-                  } catch (err) {
-                    console.log('⚠️  Cleanup warning:', err.message);
-                  }
-                  
-                  canvasPaths.push(outputPath);
-                  completed++;
-                  console.log(`✅ Canvas ${canvasNumber}/05 loop completed: 8s seamless vertical format`);
-                  
-                  // Update progress for each completed Canvas
-                  if (videoId) {
-                    const job = processingJobs.get(videoId);
-                    if (job) {
-                      const baseProgress = job.totalClips + (job.totalGifs || 0) + (job.totalThumbnails || 0);
-                      const canvasProgress = completed;
-                      job.progress = Math.min(95, Math.round(((baseProgress + canvasProgress) / job.totalOutputs) * 100));
-                    }
-                  }
-                  
-                  if (completed === totalCount) {
-                    console.log(`✅ Canvas generation complete: ${totalCount}/5 successful`);
-                    resolve(canvasPaths);
-                  }
-                })
-                .on('error', (error) => {
-                  console.error(`❌ Canvas ${canvasNumber} concatenation failed:`, error);
-                  completed++;
-                  if (completed === totalCount) {
-                    resolve(canvasPaths);
-                  }
-                })
-                .save(outputPath);
-            })
-            .on('error', (error) => {
-              console.error(`❌ Canvas ${canvasNumber} reverse failed:`, error);
-              completed++;
-              if (completed === totalCount) {
-                resolve(canvasPaths);
-              }
-            })
-            .save(reversedPath);
-        })
-        .on('error', (error) => {
-          console.error(`❌ Canvas ${canvasNumber} forward segment failed:`, error);
-          completed++;
-          if (completed === totalCount) {
-            resolve(canvasPaths);
-          }
-        })
-        .save(forwardPath);
-    });
-    
-    // Timeout fallback
-    setTimeout(() => {
-      if (completed < totalCount) {
-        console.log(`⏰ Canvas generation timeout - completed ${completed}/${totalCount}`);
-        resolve(canvasPaths);
-      }
-    }, 300000); // 5 minute timeout
-  });
-}
-
-
@@ -0,0 +1,139 @@
+/*
+ * © 2025 Full Digital LLC. All Rights Reserved.
+ * CUTMV - Music Video Cut-Down Tool
+ * Proprietary software - unauthorized use prohibited
+ */
+
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import { jobOptionsSchema } from "@shared/schema";
+import { MIGRATIONS_FOLDER } from "./db";
+import { DbStorage, MemStorage, type IStorage } from "./storage";
+
+// A Postgres-backed storage on an in-process database; a second storage over the same client stands in for a restart
+function createPgliteStorage(client = new PGlite()): { storage: DbStorage; client: PGlite } {
+  const db = drizzle({ client, schema });
+  return { storage: new DbStorage(db, () => migrate(db, { migrationsFolder: MIGRATIONS_FOLDER })), client };
+}
+
+async function queueJob(storage: IStorage) {
+  const video = await storage.createVideo({ filename: "master.mp4", originalName: "Master.mp4", path: "uploads/master.mp4", size: 1024 });
+  return storage.createJob({ videoId: video.id, options: jobOptionsSchema.parse({ aspectRatios: ["16:9"] }), totalClips: 1, totalOutputs: 1 });
+}
+
+const backends: Array<[string, () => Promise<IStorage>]> = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DbStorage", async () => {
+    const { storage } = createPgliteStorage();
+    await storage.init();
+    return storage;
+  }],
+];
+
+for (const [name, createStorage] of backends) {
+  describe(`${name} job queue`, () => {
+    test("claims queued jobs oldest first and records the worker", async () => {
+      const storage = await createStorage();
+      const first = await queueJob(storage);
+      const second = await queueJob(storage);
+
+      const claimed = await storage.claimNextJob("worker-a");
+      assert.equal(claimed?.id, first.id);
+      assert.equal(claimed?.status, "processing");
+      assert.equal(claimed?.workerId, "worker-a");
+      assert.ok(claimed?.startedAt);
+      assert.ok(claimed?.heartbeatAt);
+
+      assert.equal((await storage.claimNextJob("worker-b"))?.id, second.id);
+      assert.equal(await storage.claimNextJob("worker-c"), undefined);
+    });
+
+    test("never hands the same job to two workers", async () => {
+      const storage = await createStorage();
+      await queueJob(storage);
+
+      const claims = await Promise.all([storage.claimNextJob("worker-a"), storage.claimNextJob("worker-b")]);
+      assert.equal(claims.filter(Boolean).length, 1);
+    });
+
+    test("requeues only processing jobs whose heartbeat went stale", async () => {
+      const storage = await createStorage();
+      const stale = await queueJob(storage);
+      const live = await queueJob(storage);
+      const done = await queueJob(storage);
+      await storage.claimNextJob("worker-a");
+      await storage.claimNextJob("worker-b");
+      await storage.claimNextJob("worker-c");
+
+      const now = Date.now();
+      await storage.updateJob(stale.id, { heartbeatAt: new Date(now - 120_000), progress: 40, currentClip: 3 });
+      await storage.updateJob(live.id, { heartbeatAt: new Date(now) });
+      await storage.updateJob(done.id, { status: "completed", heartbeatAt: new Date(now - 120_000) });
+
+      const requeued = await storage.requeueStaleJobs(new Date(now - 60_000));
+      assert.deepEqual(requeued.map(job => job.id), [stale.id]);
+
+      const reset = await storage.getJob(stale.id);
+      assert.equal(reset?.status, "queued");
+      assert.equal(reset?.progress, 0);
+      assert.equal(reset?.currentClip, 0);
+      assert.equal(reset?.workerId, null);
+      assert.equal((await storage.getJob(live.id))?.status, "processing");
+      assert.equal((await storage.getJob(done.id))?.status, "completed");
+
+      assert.equal((await storage.claimNextJob("worker-d"))?.id, stale.id);
+    });
+  });
+}
+
+describe("DbStorage on a restarted server", () => {
+  test("migrations apply to an empty database and are a no-op the second time", async () => {
+    const { storage, client } = createPgliteStorage();
+    await storage.init();
+    await storage.init();
+
+    const { rows } = await client.query<{ column_name: string }>(
+      "SELECT column_name FROM information_schema.columns WHERE table_name = 'jobs'"
+    );
+    const columns = rows.map(row => row.column_name);
+    for (const column of ["worker_id", "heartbeat_at", "total_outputs", "options"]) {
+      assert.ok(columns.includes(column), `jobs.${column} is missing`);
+    }
+  });
+
+  test("a job left processing by a dead worker is picked up again after the restart", async () => {
+    const before = createPgliteStorage();
+    await before.storage.init();
+    const job = await queueJob(before.storage);
+    await before.storage.claimNextJob("worker-that-died");
+
+    const { storage: after } = createPgliteStorage(before.client);
+    await after.init();
+    assert.equal((await after.getJob(job.id))?.status, "processing");
+    // A fresh heartbeat means another worker still owns it
+    assert.deepEqual(await after.requeueStaleJobs(new Date(Date.now() - 60_000)), []);
+
+    await after.updateJob(job.id, { heartbeatAt: new Date(Date.now() - 120_000) });
+    assert.deepEqual((await after.requeueStaleJobs(new Date(Date.now() - 60_000))).map(stale => stale.id), [job.id]);
+
+    const reclaimed = await after.claimNextJob("worker-after-restart");
+    assert.equal(reclaimed?.id, job.id);
+    assert.equal(reclaimed?.workerId, "worker-after-restart");
+  });
+
+  test("deleting a video removes its clips and jobs", async () => {
+    const { storage } = createPgliteStorage();
+    await storage.init();
+    const job = await queueJob(storage);
+    await storage.createClip({ videoId: job.videoId, startTime: "00:00:01", endTime: "00:00:05", filename: "clip-1.mp4" });
+
+    assert.equal(await storage.deleteVideo(job.videoId), true);
+    assert.equal(await storage.getJob(job.id), undefined);
+    assert.deepEqual(await storage.getClipsByVideoId(job.videoId), []);
+    assert.equal(await storage.deleteVideo(job.videoId), false);
+  });
+});
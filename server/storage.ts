@@ -4,9 +4,14 @@
  * Proprietary software - unauthorized use prohibited
  */
 
-import { videos, clips, type Video, type InsertVideo, type Clip, type InsertClip } from "@shared/schema";
+import { and, eq, asc, desc, inArray, isNull, lt, or } from "drizzle-orm";
+import { videos, clips, jobs, type Video, type InsertVideo, type Clip, type InsertClip, type ProcessingJob, type InsertJob, type JobStatus } from "@shared/schema";
+import { createDb, migrateDatabase, type Database } from "./db";
 
 export interface IStorage {
+  // Prepare the backing store (e.g. run migrations) before serving requests
+  init(): Promise<void>;
+
   // Video operations
   createVideo(video: InsertVideo): Promise<Video>;
   getVideo(id: number): Promise<Video | undefined>;
@@ -19,25 +24,70 @@ export interface IStorage {
   updateClip(id: number, updates: Partial<Clip>): Promise<Clip | undefined>;
   deleteClip(id: number): Promise<boolean>;
   deleteClipsByVideoId(videoId: number): Promise<boolean>;
+
+  // Job operations
+  createJob(job: InsertJob): Promise<ProcessingJob>;
+  getJob(id: number): Promise<ProcessingJob | undefined>;
+  getJobsByVideoId(videoId: number): Promise<ProcessingJob[]>;
+  getJobsByStatus(status: JobStatus): Promise<ProcessingJob[]>;
+  updateJob(id: number, updates: Partial<ProcessingJob>): Promise<ProcessingJob | undefined>;
+  claimNextJob(workerId: string): Promise<ProcessingJob | undefined>;
+  // Put processing jobs whose last heartbeat is older than `staleBefore` back on the queue
+  requeueStaleJobs(staleBefore: Date): Promise<ProcessingJob[]>;
 }
 
+// What an orphaned job is reset to before it runs again from scratch
+const STALE_JOB_RESET: Partial<ProcessingJob> = {
+  status: 'queued',
+  progress: 0,
+  currentClip: 0,
+  errors: [],
+  workerId: null,
+  heartbeatAt: null,
+};
+
 export class MemStorage implements IStorage {
   private videos: Map<number, Video>;
   private clips: Map<number, Clip>;
+  private jobs: Map<number, ProcessingJob>;
   private currentVideoId: number;
   private currentClipId: number;
+  private currentJobId: number;
 
   constructor() {
     this.videos = new Map();
     this.clips = new Map();
+    this.jobs = new Map();
     this.currentVideoId = 1;
     this.currentClipId = 1;
+    this.currentJobId = 1;
   }
 
+  async init(): Promise<void> {}
+
   // Video operations
   async createVideo(insertVideo: InsertVideo): Promise<Video> {
     const id = this.currentVideoId++;
-    const video: Video = { ...insertVideo, id, processed: false };
+    const video: Video = {
+      ...insertVideo,
+      id,
+      duration: insertVideo.duration ?? null,
+      processed: false,
+      probeStatus: 'pending',
+      probeError: null,
+      durationSeconds: null,
+      width: null,
+      height: null,
+      frameRate: null,
+      videoCodec: null,
+      rotation: null,
+      audioCodec: null,
+      audioChannels: null,
+      audioSampleRate: null,
+      bitrate: null,
+      sceneStatus: 'pending',
+      shotBoundaries: null,
+    };
     this.videos.set(id, video);
     return video;
   }
@@ -92,6 +142,196 @@ export class MemStorage implements IStorage {
     clipsToDelete.forEach(id => this.clips.delete(id));
     return true;
   }
+
+  // Job operations
+  async createJob(insertJob: InsertJob): Promise<ProcessingJob> {
+    const id = this.currentJobId++;
+    const job: ProcessingJob = {
+      status: 'queued',
+      progress: 0,
+      currentClip: 0,
+      totalClips: 0,
+      totalGifs: 0,
+      totalThumbnails: 0,
+      totalCanvas: 0,
+      totalOutputs: 0,
+      errors: [],
+      downloadPath: null,
+      createdAt: new Date(),
+      startedAt: null,
+      completedAt: null,
+      workerId: null,
+      heartbeatAt: null,
+      ...insertJob,
+      id,
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  async getJob(id: number): Promise<ProcessingJob | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async getJobsByVideoId(videoId: number): Promise<ProcessingJob[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.videoId === videoId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getJobsByStatus(status: JobStatus): Promise<ProcessingJob[]> {
+    return Array.from(this.jobs.values()).filter(job => job.status === status);
+  }
+
+  async updateJob(id: number, updates: Partial<ProcessingJob>): Promise<ProcessingJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob = { ...job, ...updates };
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async claimNextJob(workerId: string): Promise<ProcessingJob | undefined> {
+    // Oldest queued job first
+    const next = Array.from(this.jobs.values())
+      .filter(job => job.status === 'queued')
+      .sort((a, b) => a.id - b.id)[0];
+    if (!next) return undefined;
+
+    const now = new Date();
+    return this.updateJob(next.id, { status: 'processing', startedAt: now, workerId, heartbeatAt: now });
+  }
+
+  async requeueStaleJobs(staleBefore: Date): Promise<ProcessingJob[]> {
+    const stale = Array.from(this.jobs.values())
+      .filter(job => job.status === 'processing' && (!job.heartbeatAt || job.heartbeatAt < staleBefore));
+    const requeued: ProcessingJob[] = [];
+    for (const job of stale) {
+      const updated = await this.updateJob(job.id, { ...STALE_JOB_RESET });
+      if (updated) requeued.push(updated);
+    }
+    return requeued;
+  }
+}
+
+export class DbStorage implements IStorage {
+  // `migrate` runs the driver's own drizzle migrator, since each driver ships its own
+  constructor(private db: Database, private migrate: () => Promise<void>) {}
+
+  async init(): Promise<void> {
+    await this.migrate();
+  }
+
+  // Video operations
+  async createVideo(insertVideo: InsertVideo): Promise<Video> {
+    const [video] = await this.db.insert(videos).values(insertVideo).returning();
+    return video;
+  }
+
+  async getVideo(id: number): Promise<Video | undefined> {
+    const [video] = await this.db.select().from(videos).where(eq(videos.id, id));
+    return video;
+  }
+
+  async updateVideo(id: number, updates: Partial<Video>): Promise<Video | undefined> {
+    const [video] = await this.db.update(videos).set(updates).where(eq(videos.id, id)).returning();
+    return video;
+  }
+
+  async deleteVideo(id: number): Promise<boolean> {
+    // Clips and jobs reference the video, so they go first
+    await this.db.delete(clips).where(eq(clips.videoId, id));
+    await this.db.delete(jobs).where(eq(jobs.videoId, id));
+    const deleted = await this.db.delete(videos).where(eq(videos.id, id)).returning({ id: videos.id });
+    return deleted.length > 0;
+  }
+
+  // Clip operations
+  async createClip(insertClip: InsertClip): Promise<Clip> {
+    const [clip] = await this.db.insert(clips).values(insertClip).returning();
+    return clip;
+  }
+
+  async getClipsByVideoId(videoId: number): Promise<Clip[]> {
+    return this.db.select().from(clips).where(eq(clips.videoId, videoId)).orderBy(asc(clips.id));
+  }
+
+  async updateClip(id: number, updates: Partial<Clip>): Promise<Clip | undefined> {
+    const [clip] = await this.db.update(clips).set(updates).where(eq(clips.id, id)).returning();
+    return clip;
+  }
+
+  async deleteClip(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(clips).where(eq(clips.id, id)).returning({ id: clips.id });
+    return deleted.length > 0;
+  }
+
+  async deleteClipsByVideoId(videoId: number): Promise<boolean> {
+    await this.db.delete(clips).where(eq(clips.videoId, videoId));
+    return true;
+  }
+
+  // Job operations
+  async createJob(insertJob: InsertJob): Promise<ProcessingJob> {
+    const [job] = await this.db.insert(jobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getJob(id: number): Promise<ProcessingJob | undefined> {
+    const [job] = await this.db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async getJobsByVideoId(videoId: number): Promise<ProcessingJob[]> {
+    return this.db.select().from(jobs).where(eq(jobs.videoId, videoId)).orderBy(desc(jobs.id));
+  }
+
+  async getJobsByStatus(status: JobStatus): Promise<ProcessingJob[]> {
+    return this.db.select().from(jobs).where(eq(jobs.status, status)).orderBy(asc(jobs.id));
+  }
+
+  async updateJob(id: number, updates: Partial<ProcessingJob>): Promise<ProcessingJob | undefined> {
+    const [job] = await this.db.update(jobs).set(updates).where(eq(jobs.id, id)).returning();
+    return job;
+  }
+
+  async claimNextJob(workerId: string): Promise<ProcessingJob | undefined> {
+    // SKIP LOCKED keeps two workers from claiming the same job
+    const next = this.db
+      .select({ id: jobs.id })
+      .from(jobs)
+      .where(eq(jobs.status, 'queued'))
+      .orderBy(asc(jobs.id))
+      .limit(1)
+      .for('update', { skipLocked: true });
+
+    const [job] = await this.db
+      .update(jobs)
+      .set({ status: 'processing', startedAt: new Date(), workerId, heartbeatAt: new Date() })
+      .where(inArray(jobs.id, next))
+      .returning();
+    return job;
+  }
+
+  async requeueStaleJobs(staleBefore: Date): Promise<ProcessingJob[]> {
+    // The status check in the WHERE keeps this from racing a worker that just finished the job
+    return this.db
+      .update(jobs)
+      .set(STALE_JOB_RESET)
+      .where(and(
+        eq(jobs.status, 'processing'),
+        or(isNull(jobs.heartbeatAt), lt(jobs.heartbeatAt, staleBefore))
+      ))
+      .returning();
+  }
+}
+
+// Postgres when DATABASE_URL is configured, otherwise in-memory for local development
+function createStorage(): IStorage {
+  if (!process.env.DATABASE_URL) return new MemStorage();
+  const db = createDb(process.env.DATABASE_URL);
+  return new DbStorage(db, () => migrateDatabase(db));
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = createStorage();
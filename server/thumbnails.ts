@@ -0,0 +1,184 @@
+/*
+ * © 2025 Full Digital LLC. All Rights Reserved.
+ * CUTMV - Music Video Cut-Down Tool
+ * Proprietary software - unauthorized use prohibited
+ */
+
+// Frame analysis for smart thumbnails: samples candidate frames as small grayscale images and scores them
+// for sharpness, exposure, contrast and black content so stills avoid fades, blur and transitions.
+// The same luma frames are compared to find seamless loop points (see loops.ts).
+
+import ffmpeg from "fluent-ffmpeg";
+import { JobCancelledError, trackCommand, type JobContext } from "./jobContext";
+
+// Small enough to decode a few hundred candidates quickly, large enough to tell blur from detail
+export const SAMPLE_WIDTH = 160;
+export const SAMPLE_HEIGHT = 90;
+const SAMPLE_PIXELS = SAMPLE_WIDTH * SAMPLE_HEIGHT;
+
+const MIN_CANDIDATES = 60;
+const MAX_CANDIDATES = 240;
+
+// Same thresholds as FFmpeg's blackdetect (pix_th=0.10, picture_black_ratio_th=0.98), as used for the frame=0 check
+const BLACK_PIXEL_THRESHOLD = 0.1 * 255;
+const BLACK_FRAME_RATIO = 0.98;
+
+// Frames closer than this (mean absolute luma difference, 0-255) count as the same shot
+const DUPLICATE_DIFFERENCE = 12;
+
+export interface CandidateFrame {
+  time: number;
+  pixels: Uint8Array;
+}
+
+export interface ThumbnailScore {
+  time: number;
+  // All 0-1
+  sharpness: number;
+  brightness: number;
+  contrast: number;
+  nonBlack: number;
+  score: number;
+}
+
+// Decode frames at `rate` per second as small 8-bit luma images, optionally from just part of the video and
+// after `filters` (e.g. a letterbox crop). With a job context the decode is killed when the job is cancelled.
+export function extractLumaFrames(inputPath: string, rate: number, startSeconds: number = 0, durationSeconds?: number, filters: string[] = [], ctx?: JobContext): Promise<CandidateFrame[]> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const command = trackCommand(ctx, ffmpeg(inputPath));
+    if (startSeconds > 0) {
+      command.inputOptions(['-ss', startSeconds.toFixed(3)]);
+    }
+    if (durationSeconds !== undefined) {
+      command.inputOptions(['-t', durationSeconds.toFixed(3)]);
+    }
+    command
+      .noAudio()
+      .videoFilters([...filters, `fps=${rate.toFixed(6)}:round=near`, `scale=${SAMPLE_WIDTH}:${SAMPLE_HEIGHT}`, 'format=gray'])
+      .format('rawvideo')
+      .on('error', reject);
+
+    const stream = command.pipe();
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    stream.on('end', () => {
+      // A killed decode can still end its stream; partial frames would be scored as if they were the whole range
+      if (ctx?.cancelled) {
+        reject(new JobCancelledError());
+        return;
+      }
+      const buffer = Buffer.concat(chunks);
+      const frames: CandidateFrame[] = [];
+      for (let i = 0; (i + 1) * SAMPLE_PIXELS <= buffer.length; i++) {
+        frames.push({ time: startSeconds + i / rate, pixels: new Uint8Array(buffer.subarray(i * SAMPLE_PIXELS, (i + 1) * SAMPLE_PIXELS)) });
+      }
+      resolve(frames);
+    });
+  });
+}
+
+// Roughly evenly spaced candidates across the whole video
+export function extractCandidateFrames(inputPath: string, durationSeconds: number, count: number, ctx?: JobContext): Promise<CandidateFrame[]> {
+  const candidates = Math.min(MAX_CANDIDATES, Math.max(MIN_CANDIDATES, count * 6));
+  return extractLumaFrames(inputPath, candidates / Math.max(durationSeconds, 1), 0, undefined, [], ctx);
+}
+
+// Raw measurements for one frame; sharpness is the variance of the Laplacian, which drops with blur and fades
+function measureFrame(pixels: Uint8Array): { laplacianVariance: number; mean: number; deviation: number; blackRatio: number } {
+  let sum = 0;
+  let sumSquares = 0;
+  let black = 0;
+  for (let i = 0; i < pixels.length; i++) {
+    sum += pixels[i];
+    sumSquares += pixels[i] * pixels[i];
+    if (pixels[i] <= BLACK_PIXEL_THRESHOLD) black++;
+  }
+  const mean = sum / pixels.length;
+
+  let lapSum = 0;
+  let lapSquares = 0;
+  let lapCount = 0;
+  for (let y = 1; y < SAMPLE_HEIGHT - 1; y++) {
+    for (let x = 1; x < SAMPLE_WIDTH - 1; x++) {
+      const i = y * SAMPLE_WIDTH + x;
+      const lap = 4 * pixels[i] - pixels[i - 1] - pixels[i + 1] - pixels[i - SAMPLE_WIDTH] - pixels[i + SAMPLE_WIDTH];
+      lapSum += lap;
+      lapSquares += lap * lap;
+      lapCount++;
+    }
+  }
+  const lapMean = lapSum / lapCount;
+
+  return {
+    laplacianVariance: lapSquares / lapCount - lapMean * lapMean,
+    mean,
+    deviation: Math.sqrt(Math.max(0, sumSquares / pixels.length - mean * mean)),
+    blackRatio: black / pixels.length,
+  };
+}
+
+// Score every candidate; sharpness is relative to the sharpest frame since absolute detail varies by video
+export function scoreCandidateFrames(frames: CandidateFrame[]): ThumbnailScore[] {
+  const measured = frames.map(frame => ({ time: frame.time, ...measureFrame(frame.pixels) }));
+  const maxSharpness = Math.max(1, ...measured.map(frame => frame.laplacianVariance));
+
+  return measured.map(({ time, laplacianVariance, mean, deviation, blackRatio }) => {
+    const sharpness = Math.sqrt(laplacianVariance / maxSharpness);
+    // Mid-tones score best; crushed or blown-out frames fall off linearly
+    const brightness = Math.max(0, 1 - Math.abs(mean - 115) / 115);
+    const contrast = Math.min(1, deviation / 64);
+    const nonBlack = blackRatio >= BLACK_FRAME_RATIO ? 0 : 1 - blackRatio;
+    const score = nonBlack === 0 ? 0 : 0.4 * sharpness + 0.2 * brightness + 0.25 * contrast + 0.15 * nonBlack;
+    return { time, sharpness, brightness, contrast, nonBlack, score };
+  });
+}
+
+// Mean absolute luma difference, 0-255
+export function meanDifference(a: Uint8Array, b: Uint8Array): number {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) {
+    total += Math.abs(a[i] - b[i]);
+  }
+  return total / a.length;
+}
+
+// Best-scoring frames that are neither near in time nor near-identical to an already picked frame, in time order
+export function selectThumbnailFrames(frames: CandidateFrame[], count: number, durationSeconds: number): ThumbnailScore[] {
+  const scores = scoreCandidateFrames(frames);
+  // The first and last moments are usually logos, fades or black
+  const margin = durationSeconds * 0.02;
+  const minGap = durationSeconds / (count * 3);
+
+  const order = scores
+    .map((score, index) => ({ score, index }))
+    .filter(({ score }) => score.score > 0 && score.time >= margin && score.time <= durationSeconds - margin)
+    .sort((a, b) => b.score.score - a.score.score);
+
+  const picked: Array<{ score: ThumbnailScore; index: number }> = [];
+  for (const candidate of order) {
+    if (picked.length >= count) break;
+    const tooClose = picked.some(({ score, index }) =>
+      Math.abs(score.time - candidate.score.time) < minGap ||
+      meanDifference(frames[index].pixels, frames[candidate.index].pixels) < DUPLICATE_DIFFERENCE
+    );
+    if (!tooClose) {
+      picked.push(candidate);
+    }
+  }
+
+  // Videos with few distinct shots still get `count` stills, just less far apart
+  for (const candidate of order) {
+    if (picked.length >= count) break;
+    if (!picked.some(({ score }) => Math.abs(score.time - candidate.score.time) < minGap / 2)) {
+      picked.push(candidate);
+    }
+  }
+
+  return picked.map(({ score }) => score).sort((a, b) => a.time - b.time);
+}
+
+// Sample the video and return the times of the best `count` distinct stills
+export async function pickSmartThumbnailTimes(inputPath: string, durationSeconds: number, count: number, ctx?: JobContext): Promise<ThumbnailScore[]> {
+  const frames = await extractCandidateFrames(inputPath, durationSeconds, count, ctx);
+  return selectThumbnailFrames(frames, count, durationSeconds);
+}
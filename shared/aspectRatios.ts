@@ -0,0 +1,36 @@
+/*
+ * © 2025 Full Digital LLC. All Rights Reserved.
+ * CUTMV - Music Video Cut-Down Tool
+ * Proprietary software - unauthorized use prohibited
+ */
+
+// Output shapes for clip exports, shared by the export options UI and the job worker so every ratio is
+// rendered, named and foldered the same way end to end.
+
+import type { AspectRatio, FitMode } from "./schema";
+
+export interface AspectRatioPreset {
+  width: number;
+  height: number;
+  // Used unless the job picks another fill mode for this ratio
+  fit: FitMode;
+  // Output folder inside the ZIP; the same tag is appended to each clip's filename
+  folder: string;
+  suffix: string;
+  label: string;
+  description: string;
+}
+
+export const ASPECT_RATIO_PRESETS: Record<AspectRatio, AspectRatioPreset> = {
+  '16:9': { width: 1280, height: 720, fit: 'source', folder: 'clips (16x9)', suffix: '(16x9)', label: 'Widescreen', description: 'YouTube, desktop platforms' },
+  '9:16': { width: 1080, height: 1920, fit: 'crop', folder: 'clips (9x16)', suffix: '(9x16)', label: 'Vertical + Motion Tracking', description: 'TikTok, Reels, Stories' },
+  '1:1': { width: 1080, height: 1080, fit: 'crop', folder: 'clips (1x1)', suffix: '(1x1)', label: 'Square', description: 'Instagram and Facebook feeds' },
+  '4:5': { width: 1080, height: 1350, fit: 'crop', folder: 'clips (4x5)', suffix: '(4x5)', label: 'Portrait', description: 'Instagram feed, takes the most screen' },
+  '4:3': { width: 1440, height: 1080, fit: 'crop', folder: 'clips (4x3)', suffix: '(4x3)', label: 'Standard', description: 'Classic TV and tablet framing' },
+  '21:9': { width: 2560, height: 1080, fit: 'crop', folder: 'clips (21x9)', suffix: '(21x9)', label: 'Cinematic', description: 'Ultrawide, YouTube banners' },
+};
+
+// Width / height of the rendered clip
+export function presetAspect(preset: AspectRatioPreset): number {
+  return preset.width / preset.height;
+}
@@ -4,7 +4,7 @@
  * Proprietary software - unauthorized use prohibited
  */
 
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, bigint, boolean, jsonb, timestamp, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -13,9 +13,27 @@ export const videos = pgTable("videos", {
   filename: text("filename").notNull(),
   originalName: text("original_name").notNull(),
   path: text("path").notNull(),
-  size: integer("size").notNull(),
+  // Uploads go up to 5GB, past the range of a 32-bit integer column
+  size: bigint("size", { mode: "number" }).notNull(),
   duration: text("duration"),
   processed: boolean("processed").default(false),
+  // Filled in by the ffprobe step that runs right after upload
+  probeStatus: text("probe_status").$type<ProbeStatus>().notNull().default("pending"),
+  probeError: text("probe_error"),
+  durationSeconds: doublePrecision("duration_seconds"),
+  width: integer("width"),
+  height: integer("height"),
+  frameRate: doublePrecision("frame_rate"),
+  videoCodec: text("video_codec"),
+  rotation: integer("rotation"),
+  audioCodec: text("audio_codec"),
+  audioChannels: integer("audio_channels"),
+  audioSampleRate: integer("audio_sample_rate"),
+  bitrate: bigint("bitrate", { mode: "number" }),
+  // Filled in by the scene detection pass that runs in the background after the probe
+  sceneStatus: text("scene_status").$type<SceneStatus>().notNull().default("pending"),
+  // Times (seconds) of the first frame of every shot after the first
+  shotBoundaries: jsonb("shot_boundaries").$type<number[]>(),
 });
 
 export const clips = pgTable("clips", {
@@ -28,6 +46,29 @@ export const clips = pgTable("clips", {
   processed: boolean("processed").default(false),
 });
 
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  videoId: integer("video_id").references(() => videos.id).notNull(),
+  status: text("status").$type<JobStatus>().notNull().default("queued"),
+  options: jsonb("options").$type<JobOptions>().notNull(),
+  progress: integer("progress").notNull().default(0),
+  currentClip: integer("current_clip").notNull().default(0),
+  totalClips: integer("total_clips").notNull().default(0),
+  totalGifs: integer("total_gifs").notNull().default(0),
+  totalThumbnails: integer("total_thumbnails").notNull().default(0),
+  totalCanvas: integer("total_canvas").notNull().default(0),
+  totalOutputs: integer("total_outputs").notNull().default(0),
+  errors: jsonb("errors").$type<string[]>().notNull().default([]),
+  downloadPath: text("download_path"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  // Worker that claimed the job, and its last sign of life; a processing job that stops beating was
+  // orphaned by a dead instance
+  workerId: text("worker_id"),
+  heartbeatAt: timestamp("heartbeat_at"),
+});
+
 export const insertVideoSchema = createInsertSchema(videos).pick({
   filename: true,
   originalName: true,
@@ -47,30 +88,139 @@ export const insertClipSchema = createInsertSchema(clips).pick({
 export const timestampSchema = z.object({
   startTime: z.string(),
   endTime: z.string(),
+  // Optional clip name from the timestamp text, used in output filenames
+  label: z.string().max(100).optional(),
+  // Manual horizontal framing for crops narrower than the source, -1 (far left) to 1 (far right); overrides subject tracking
+  cropOffset: z.number().min(-1).max(1).optional(),
 });
 
 export const timestampListSchema = z.array(timestampSchema);
 
+// Output shapes for clip exports; sizes, framing and folders are in aspectRatios.ts
+export const aspectRatioSchema = z.enum(['16:9', '9:16', '1:1', '4:5', '4:3', '21:9']);
+
+// How a clip fills a shape it doesn't match: keep the source shape, crop the overflow, pad with a color, or keep
+// the full frame over a blurred copy of itself or an uploaded image
+export const fitModeSchema = z.enum(['source', 'crop', 'pad', 'blur', 'image']);
+
+// Looping-clip formats; mp4 and webm are silent "GIFV" loops for platforms that autoplay video
+export const loopFormatSchema = z.enum(['gif', 'webp', 'apng', 'mp4', 'webm']);
+
+export const gifDitherSchema = z.enum(['bayer', 'floyd_steinberg', 'sierra2_4a', 'none']);
+
+// GIF export settings; "timestamps" makes one GIF per timestamp instead of picking random sections
+export const gifOptionsSchema = z.object({
+  count: z.number().int().min(1).max(30).default(10),
+  // Length of each GIF in seconds; GIFs from timestamps are cut to it when the range is longer
+  duration: z.number().positive().max(30).default(6),
+  fps: z.number().int().min(1).max(30).default(10),
+  // Height follows the source aspect ratio
+  width: z.number().int().min(64).max(1920).default(640),
+  // As in FFmpeg: 0 loops forever, -1 plays once, N repeats N more times
+  loop: z.number().int().min(-1).max(100).default(0),
+  dither: gifDitherSchema.default('bayer'),
+  // Seconds of the tail blended into the head so the loop point doesn't jump; 0 keeps a hard cut
+  crossfadeDuration: z.number().min(0).max(2).default(0),
+  // Shorten each section (by up to a quarter) to end on the frame most like its first
+  matchFrames: z.boolean().default(false),
+  // Size budget per GIF; colors, fps and then width are cut until each GIF fits
+  maxBytes: z.number().int().positive().optional(),
+  source: z.enum(['random', 'timestamps']).default('random'),
+  // Every range is rendered once per format
+  formats: z.array(loopFormatSchema).min(1)
+    .refine(formats => new Set(formats).size === formats.length, 'Each format can only be listed once')
+    .default(['gif']),
+  // Filled in from the timestamp text when source is "timestamps"
+  ranges: timestampListSchema.default([]),
+});
+
+// Spotify Canvas loops. "boomerang" plays the section forward then reversed, "crossfade" blends the end back
+// into the start, "cut" loops the section as-is. "timestamps" makes one Canvas per timestamp.
+export const canvasOptionsSchema = z.object({
+  // Spotify accepts 3 to 8 seconds
+  duration: z.number().min(3).max(8).default(8),
+  mode: z.enum(['boomerang', 'crossfade', 'cut']).default('boomerang'),
+  crossfadeDuration: z.number().min(0.1).max(2).default(0.5),
+  // Crossfade and cut loops: end on the frame most like the first, shortening the loop if needed
+  matchFrames: z.boolean().default(false),
+  source: z.enum(['random', 'timestamps']).default('random'),
+  // Filled in from the timestamp text when source is "timestamps"
+  ranges: timestampListSchema.default([]),
+});
+
+// "original" keeps the source aspect within 1920x1080; the rest are fixed-size platform crops
+export const thumbnailPresetSchema = z.enum(['original', 'youtube', 'square', 'vertical', 'portrait']);
+export const thumbnailFormatSchema = z.enum(['jpg', 'png', 'webp', 'avif']);
+
+// Thumbnail stills: "smart" scores sampled frames and keeps the best distinct ones, "even" spaces them evenly.
+// Every chosen frame is written once per preset and format.
+export const thumbnailOptionsSchema = z.object({
+  mode: z.enum(['smart', 'even']).default('smart'),
+  count: z.number().int().min(1).max(30).default(10),
+  presets: z.array(thumbnailPresetSchema).min(1)
+    .refine(presets => new Set(presets).size === presets.length, 'Each preset can only be listed once')
+    .default(['original']),
+  formats: z.array(thumbnailFormatSchema).min(1)
+    .refine(formats => new Set(formats).size === formats.length, 'Each format can only be listed once')
+    .default(['jpg']),
+  // 1-100; PNG is lossless and ignores it
+  quality: z.number().int().min(1).max(100).default(92),
+});
+
+// Options captured when an export job is queued; the worker reads them back verbatim
+export const jobOptionsSchema = z.object({
+  timestamps: timestampListSchema.default([]),
+  // Names the ZIP, so it has to be a plain file name: no separators, reserved or control characters, or dot-only names
+  outputName: z.string().trim().min(1).max(100)
+    .regex(/^[^\\/:*?"<>|\x00-\x1f]+$/, 'Output name cannot contain \\ / : * ? " < > | or control characters')
+    .refine(name => !/^\.+$/.test(name), 'Output name cannot be only dots')
+    .optional(),
+  quality: z.enum(['high', 'balanced', 'compressed']).default('balanced'),
+  videoFade: z.boolean().default(false),
+  audioFade: z.boolean().default(false),
+  fadeDuration: z.number().positive().default(0.5),
+  // EDL, FCPXML and JSON sidecars describing each rendered clip, for relinking to the master
+  generateCutList: z.boolean().default(false),
+  // Move clip starts and ends onto the nearest shot boundary within the tolerance (seconds)
+  snapToShots: z.boolean().default(false),
+  snapTolerance: z.number().positive().max(5).default(0.5),
+  generateGif: z.boolean().default(false),
+  gif: gifOptionsSchema.default({}),
+  generateThumbnails: z.boolean().default(false),
+  thumbnails: thumbnailOptionsSchema.default({}),
+  generateCanvas: z.boolean().default(false),
+  canvas: canvasOptionsSchema.default({}),
+  aspectRatios: z.array(aspectRatioSchema).min(1)
+    .refine(ratios => new Set(ratios).size === ratios.length, 'Each aspect ratio can only be listed once')
+    .default(['16:9']),
+  // Per-ratio fill mode; ratios left out use their preset's default
+  fitModes: z.record(aspectRatioSchema, fitModeSchema).default({}),
+  padColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Use a hex color like #000000').default('#000000'),
+  // Id returned by /api/backgrounds, required when any ratio uses the image fill mode
+  backgroundImage: z.string().regex(/^[a-f0-9]{32}$/).optional(),
+  // How crops narrower than the source are placed: follow the subject per shot, or a plain center crop
+  reframe: z.enum(['subject', 'center']).default('subject'),
+  // Seed for the GIF and Canvas picks; the server assigns one when it's missing
+  seed: z.number().int().min(0).max(0xffffffff).optional(),
+});
+
 export type InsertVideo = z.infer<typeof insertVideoSchema>;
 export type Video = typeof videos.$inferSelect;
 export type InsertClip = z.infer<typeof insertClipSchema>;
 export type Clip = typeof clips.$inferSelect;
 export type Timestamp = z.infer<typeof timestampSchema>;
 
-export interface ProcessingJob {
-  id: number;
-  videoId: number;
-  isProcessing: boolean;
-  progress: number;
-  currentClip: number;
-  totalClips: number;
-  totalGifs: number;
-  totalThumbnails: number;
-  totalCanvas: number;
-  totalOutputs: number;
-  estimatedTimeLeft?: number;
-  canCancel: boolean;
-  downloadUrl?: string;
-  error?: string;
-  aspectRatios?: ('16:9' | '9:16')[];
-}
+export type AspectRatio = z.infer<typeof aspectRatioSchema>;
+export type FitMode = z.infer<typeof fitModeSchema>;
+export type JobOptions = z.infer<typeof jobOptionsSchema>;
+export type GifOptions = z.infer<typeof gifOptionsSchema>;
+export type LoopFormat = z.infer<typeof loopFormatSchema>;
+export type ThumbnailOptions = z.infer<typeof thumbnailOptionsSchema>;
+export type CanvasOptions = z.infer<typeof canvasOptionsSchema>;
+export type ThumbnailPreset = z.infer<typeof thumbnailPresetSchema>;
+export type ThumbnailFormat = z.infer<typeof thumbnailFormatSchema>;
+export type ProbeStatus = 'pending' | 'completed' | 'failed';
+export type SceneStatus = 'pending' | 'analyzing' | 'completed' | 'failed';
+export type JobStatus = 'queued' | 'processing' | 'completed' | 'error' | 'cancelled';
+export type ProcessingJob = typeof jobs.$inferSelect;
+export type InsertJob = typeof jobs.$inferInsert;
@@ -0,0 +1,67 @@
+/*
+ * © 2025 Full Digital LLC. All Rights Reserved.
+ * CUTMV - Music Video Cut-Down Tool
+ * Proprietary software - unauthorized use prohibited
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseTimestampText, validateTimestamps } from "./timestamps";
+
+test("last chapter ends inside a duration with a fractional millisecond", () => {
+  const result = parseTimestampText("Intro 0:00\nVerse 0:10\nOutro 0:20", {
+    mode: 'chapters',
+    videoDurationSeconds: 30.066667,
+  });
+
+  assert.deepEqual(result.errors, []);
+  assert.deepEqual(result.timestamps.map(t => t.endTime), ['00:00:10', '00:00:20', '00:00:30.066']);
+});
+
+test("numbers in a label are not read as a legacy time", () => {
+  const result = parseTimestampText("Take 2.30 0:45-1:00");
+
+  assert.deepEqual(result.errors, []);
+  assert.deepEqual(result.timestamps.map(({ startTime, endTime, label }) => ({ startTime, endTime, label })), [
+    { startTime: '00:00:45', endTime: '00:01:00', label: 'Take 2.30' },
+  ]);
+});
+
+test("legacy times still read at the start of a line", () => {
+  const result = parseTimestampText("1.23-1.45 Hook");
+
+  assert.deepEqual(result.errors, []);
+  assert.deepEqual(result.timestamps.map(({ startTime, endTime, label }) => ({ startTime, endTime, label })), [
+    { startTime: '00:01:23', endTime: '00:01:45', label: 'Hook' },
+  ]);
+});
+
+test("an unreadable time is an error instead of part of the label", () => {
+  const result = parseTimestampText("0:59.9999-1:00");
+
+  assert.deepEqual(result.timestamps, []);
+  assert.deepEqual(result.errors, [{ line: 1, message: 'Unreadable time "0:59.9999"' }]);
+});
+
+test("a time left over after the clip's range is an error", () => {
+  const result = parseTimestampText("Hook 1:10-1:20 1:40");
+
+  assert.deepEqual(result.timestamps, []);
+  assert.deepEqual(result.errors, [{ line: 1, message: 'Unexpected time "1:40" - put one clip on each line' }]);
+});
+
+test("SMPTE frame numbers must be below the video's frame rate", () => {
+  assert.deepEqual(parseTimestampText("00:00:10:24-00:00:12:00", { frameRate: 25 }).errors, []);
+  assert.deepEqual(parseTimestampText("00:00:10:25-00:00:12:00", { frameRate: 25 }).errors, [
+    { line: 1, message: 'Frame 25 in "00:00:10:25" is past the 25 frames per second of the video' },
+  ]);
+  // 29.97 footage counts 30 frame numbers a second
+  assert.deepEqual(parseTimestampText("00:00:10;29-00:00:12;00", { frameRate: 30000 / 1001 }).errors, []);
+});
+
+test("structured timestamps are held to the same frame limit", () => {
+  const result = validateTimestamps([{ startTime: '00:00:01:30', endTime: '00:00:02:00' }], { frameRate: 24 });
+
+  assert.deepEqual(result.timestamps, []);
+  assert.deepEqual(result.errors, [{ line: 1, message: 'Frame 30 in "00:00:01:30" is past the 24 frames per second of the video' }]);
+});
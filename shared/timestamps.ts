@@ -0,0 +1,432 @@
+/*
+ * © 2025 Full Digital LLC. All Rights Reserved.
+ * CUTMV - Music Video Cut-Down Tool
+ * Proprietary software - unauthorized use prohibited
+ */
+
+// Timestamp parsing and validation shared by the TimestampInput preview and the server endpoints,
+// so the clips a user sees listed are exactly the clips that get cut.
+
+import type { Timestamp, Video } from "./schema";
+
+// Frame rate assumed for SMPTE timestamps when the video's rate is unknown
+export const DEFAULT_FRAME_RATE = 30;
+
+export interface ParsedTimestamp extends Timestamp {
+  // 1-based line of the source text (or position in the list when validating structured timestamps)
+  line: number;
+  duration: number;
+}
+
+export interface TimestampIssue {
+  line: number;
+  message: string;
+}
+
+export interface TimestampParseResult {
+  timestamps: ParsedTimestamp[];
+  errors: TimestampIssue[];
+  warnings: TimestampIssue[];
+}
+
+export interface TimestampValidationOptions {
+  // Exact video length in seconds; end times past it are rejected
+  videoDurationSeconds?: number | null;
+  // Source frame rate used to resolve SMPTE timestamps
+  frameRate?: number | null;
+}
+
+// "ranges": every line is a clip (start-end or start +duration).
+// "chapters": a line may hold just a start time and the clip runs until the next line starts.
+export type TimestampMode = 'ranges' | 'chapters';
+
+export interface TimestampParseOptions extends TimestampValidationOptions {
+  mode?: TimestampMode;
+}
+
+// Validation limits for an uploaded video; the probed duration is exact, the formatted one is whole seconds
+export function videoTimestampOptions(video: Pick<Video, 'duration' | 'durationSeconds' | 'frameRate'>): TimestampValidationOptions {
+  return {
+    videoDurationSeconds: video.durationSeconds ?? (video.duration ? timestampToSeconds(video.duration) : null),
+    frameRate: video.frameRate,
+  };
+}
+
+export function formatTimestampIssue(issue: TimestampIssue): string {
+  return `Line ${issue.line}: ${issue.message}`;
+}
+
+// SMPTE timecode HH:MM:SS:FF, or HH:MM:SS;FF for drop-frame
+const SMPTE_PATTERN = /^(\d{1,2}):(\d{2}):(\d{2})([:;])(\d{2})$/;
+
+export function normalizeTimestamp(timestamp: string, frameRate: number = DEFAULT_FRAME_RATE): string | null {
+  // Remove any extra whitespace
+  timestamp = timestamp.trim();
+
+  // SMPTE is kept as-is and resolved against the frame rate; frame numbers count up to the nominal rate
+  const smpteMatch = timestamp.match(SMPTE_PATTERN);
+  if (smpteMatch) {
+    const [, hours, minutes, seconds, separator, frames] = smpteMatch;
+    if (parseInt(minutes) >= 60 || parseInt(seconds) >= 60 || parseInt(frames) >= Math.round(frameRate)) {
+      return null;
+    }
+    return `${hours.padStart(2, '0')}:${minutes}:${seconds}${separator}${frames}`;
+  }
+
+  // Without any colon, ; and . are time separators (1.23 or 1;23 means 1:23); otherwise . starts the milliseconds
+  if (!timestamp.includes(':')) {
+    timestamp = timestamp.replace(/[;.]/g, ':');
+  }
+
+  // [H:]M:SS with optional .mmm
+  const match = timestamp.match(/^(?:(\d{1,2}):)?(\d{1,2}):(\d{2})(?:\.(\d{1,3}))?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, hours, minutes, seconds, fraction] = match;
+  const hrs = hours ? parseInt(hours) : 0;
+  const mins = parseInt(minutes);
+  const secs = parseInt(seconds);
+
+  if (secs >= 60 || mins >= 60) {
+    return null;
+  }
+
+  const normalized = `${hrs.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  return fraction ? `${normalized}.${fraction.padEnd(3, '0')}` : normalized;
+}
+
+// A timestamp as typed: [H:]M:SS with optional .mmm, SMPTE HH:MM:SS:FF, or the legacy 1.23 / 1;23 forms
+const TIME_PATTERN = String.raw`\d{1,2}(?:[:;.]\d{2}){1,3}(?:\.\d{1,3})?`;
+// Not glued to surrounding words or digits, so "Verse 2: 1:10" finds 1:10 and not "2: 1"
+const TIME_BOUNDARY_AFTER = String.raw`(?![\w:;]|\.\d)`;
+
+// Anything shaped like a time, readable or not ("1:10", "0:59.9999", "1.23"), so bad times are reported
+// instead of being skipped over for a later one
+const TIME_LIKE_TOKEN = /(?<![\w:;.])\d+(?:[:;.]\d+)+(?!\w|[:;.]\d)/g;
+// End of a range: "1:10-1:32", "1:10 – 1:32", "1:10, 1:32", "1:10 1:32", "1:10 to 1:32"
+const END_TOKEN = new RegExp(String.raw`^\s*(?:[-–—,]\s*|to\s+)?(${TIME_PATTERN})${TIME_BOUNDARY_AFTER}`, 'i');
+// Length instead of an end: "+15", "+15s", "+7.5s", "+1:30"
+const DURATION_TOKEN = new RegExp(String.raw`^\s*\+\s*(?:(${TIME_PATTERN})|(\d+(?:\.\d+)?)\s*s?)(?![\w:;.])`, 'i');
+
+// One line of timestamp text before validation; endTime is missing for a bare chapter start
+export interface TimestampLine {
+  startTime: string;
+  endTime?: string;
+  label?: string;
+  cropOffset?: number;
+}
+
+// Framing override anywhere on the line: "@left", "@center", "@right" or "@x=-0.4" (-1 to 1)
+const CROP_OFFSET_TOKEN = /(?:^|\s)@(left|center|right|x=(-?(?:\d+(?:\.\d+)?|\.\d+)))(?=\s|$)/i;
+const NAMED_CROP_OFFSETS: Record<string, number> = { left: -1, center: 0, right: 1 };
+
+// Whole-line comments start with # or //; " # ..." after a timestamp is an inline comment
+function stripComment(line: string): string {
+  if (/^(#|\/\/)/.test(line)) {
+    return '';
+  }
+  return line.replace(/\s#.*$/, '').trim();
+}
+
+function cleanLabel(text: string): string {
+  return text.replace(/^[\s\-–—:|,]+|[\s\-–—:|,]+$/g, '');
+}
+
+export type TimestampLineResult = { timestamp: TimestampLine } | { error: string };
+
+// Why a time-like token can't be read; SMPTE frames get their own message since the rest of the time is fine
+function describeUnreadableTime(token: string, frameRate: number): string {
+  const smpte = token.match(SMPTE_PATTERN);
+  if (smpte && parseInt(smpte[5]) >= Math.round(frameRate)) {
+    return `Frame ${smpte[5]} in "${token}" is past the ${Math.round(frameRate)} frames per second of the video`;
+  }
+  return `Unreadable time "${token}"`;
+}
+
+// Parse one line: optional label before or after the times, then start-end, start +duration or just a start.
+// Times need a colon, except the legacy 1.23 / 1;23 forms at the very start of a line, so numbers in a label
+// ("Take 2.30") are never read as a time. A time-like token that can't be read, or is left over after the
+// clip's times, is an error rather than part of the label.
+export function parseTimestampLine(line: string, frameRate: number = DEFAULT_FRAME_RATE): TimestampLineResult {
+  // Taken out first so the offset's digits are never read as a time
+  let cropOffset: number | undefined;
+  const offsetMatch = line.match(CROP_OFFSET_TOKEN);
+  if (offsetMatch) {
+    cropOffset = offsetMatch[2] !== undefined ? Number(offsetMatch[2]) : NAMED_CROP_OFFSETS[offsetMatch[1].toLowerCase()];
+    if (cropOffset < -1 || cropOffset > 1) {
+      return { error: 'Crop offset must be between -1 and 1' };
+    }
+    line = line.replace(CROP_OFFSET_TOKEN, ' ').trim();
+  }
+
+  const times = Array.from(line.matchAll(TIME_LIKE_TOKEN))
+    .filter(match => match[0].includes(':') || (match.index === 0 && normalizeTimestamp(match[0], frameRate)))
+    .map(match => ({ token: match[0], index: match.index ?? 0 }));
+  const unreadable = times.find(({ token }) => !normalizeTimestamp(token, frameRate));
+  if (unreadable) {
+    return { error: describeUnreadableTime(unreadable.token, frameRate) };
+  }
+  if (times.length === 0) {
+    return { error: `Invalid format "${line}"` };
+  }
+
+  const start = times[0];
+  const startTime = normalizeTimestamp(start.token, frameRate)!;
+  let consumedTo = start.index + start.token.length;
+  let endTime: string | undefined;
+
+  const rest = line.slice(consumedTo);
+  const endMatch = rest.match(END_TOKEN);
+  const durationMatch = endMatch ? null : rest.match(DURATION_TOKEN);
+  if (endMatch) {
+    const normalizedEnd = normalizeTimestamp(endMatch[1], frameRate);
+    if (!normalizedEnd) {
+      return { error: describeUnreadableTime(endMatch[1], frameRate) };
+    }
+    endTime = normalizedEnd;
+    consumedTo += endMatch[0].length;
+  } else if (durationMatch) {
+    const durationTimestamp = durationMatch[1] ? normalizeTimestamp(durationMatch[1], frameRate) : null;
+    const durationSeconds = durationMatch[1]
+      ? (durationTimestamp ? timestampToSeconds(durationTimestamp, frameRate) : NaN)
+      : Number(durationMatch[2]);
+    if (!(durationSeconds > 0)) {
+      return { error: `Invalid duration "${durationMatch[0].trim()}"` };
+    }
+    endTime = secondsToTimestamp(timestampToSeconds(startTime, frameRate) + durationSeconds);
+    consumedTo += durationMatch[0].length;
+  }
+
+  const leftover = times.find(({ index }) => index >= consumedTo);
+  if (leftover) {
+    return { error: `Unexpected time "${leftover.token}" - put one clip on each line` };
+  }
+
+  const label = cleanLabel(line.slice(0, start.index)) || cleanLabel(line.slice(consumedTo));
+  return {
+    timestamp: { startTime, ...(endTime ? { endTime } : {}), ...(label ? { label } : {}), ...(cropOffset !== undefined ? { cropOffset } : {}) },
+  };
+}
+
+// Write a timestamp back as a line parseTimestampLine reads the same way; the label goes last so digits in it
+// are never mistaken for times, and # is dropped so it can't start a comment
+export function formatTimestampLine(timestamp: Timestamp): string {
+  const label = timestamp.label?.replace(/#/g, '').trim();
+  const offset = timestamp.cropOffset !== undefined ? ` @x=${timestamp.cropOffset}` : '';
+  return `${timestamp.startTime} - ${timestamp.endTime}${offset}${label ? ` ${label}` : ''}`;
+}
+
+// SMPTE timecode counts frames at the nominal (rounded) rate, so 29.97 footage runs 30 frame numbers a second
+function smpteToSeconds(hours: number, minutes: number, seconds: number, frames: number, dropFrame: boolean, frameRate: number): number {
+  const nominalRate = Math.round(frameRate);
+  let frameNumber = (hours * 3600 + minutes * 60 + seconds) * nominalRate + frames;
+
+  // Drop-frame (29.97/59.94) skips the first 2 (or 4) frame numbers of every minute except each tenth minute
+  if (dropFrame && nominalRate % 30 === 0 && nominalRate !== frameRate) {
+    const totalMinutes = hours * 60 + minutes;
+    frameNumber -= (nominalRate / 15) * (totalMinutes - Math.floor(totalMinutes / 10));
+  }
+
+  return frameNumber / frameRate;
+}
+
+// Accepts HH:MM:SS, MM:SS (either with optional .mmm) and SMPTE HH:MM:SS:FF / HH:MM:SS;FF (drop-frame)
+export function timestampToSeconds(timestamp: string, frameRate: number = DEFAULT_FRAME_RATE): number {
+  const smpte = timestamp.match(/^(\d+):(\d{2}):(\d{2})([:;])(\d{2})$/);
+  if (smpte) {
+    const [, hours, minutes, seconds, separator, frames] = smpte;
+    return smpteToSeconds(Number(hours), Number(minutes), Number(seconds), Number(frames), separator === ';', frameRate);
+  }
+
+  const parts = timestamp.split(':').map(Number);
+  if (parts.length === 3) {
+    return parts[0] * 3600 + parts[1] * 60 + parts[2];
+  } else if (parts.length === 2) {
+    return parts[0] * 60 + parts[1];
+  }
+  return 0;
+}
+
+// HH:MM:SS, with .mmm appended only when the value isn't a whole second
+export function secondsToTimestamp(seconds: number): string {
+  const totalMilliseconds = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMilliseconds / 3600000);
+  const minutes = Math.floor((totalMilliseconds % 3600000) / 60000);
+  const secs = Math.floor((totalMilliseconds % 60000) / 1000);
+  const milliseconds = totalMilliseconds % 1000;
+
+  const timestamp = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  return milliseconds > 0 ? `${timestamp}.${milliseconds.toString().padStart(3, '0')}` : timestamp;
+}
+
+// Non-drop-frame SMPTE HH:MM:SS:FF for the frame nearest a time, counted at the nominal rate like smpteToSeconds
+export function secondsToSmpte(seconds: number, frameRate: number = DEFAULT_FRAME_RATE): string {
+  const nominalRate = Math.round(frameRate);
+  const frameNumber = Math.round(seconds * frameRate);
+  const totalSeconds = Math.floor(frameNumber / nominalRate);
+  const fields = [
+    Math.floor(totalSeconds / 3600),
+    Math.floor((totalSeconds % 3600) / 60),
+    totalSeconds % 60,
+    frameNumber % nominalRate,
+  ];
+  return fields.map(field => field.toString().padStart(2, '0')).join(':');
+}
+
+// Validate structured timestamps; issues point at the line each timestamp came from
+export function validateTimestamps(
+  timestamps: Array<Timestamp & { line?: number }>,
+  options: TimestampValidationOptions = {}
+): TimestampParseResult {
+  const valid: ParsedTimestamp[] = [];
+  const errors: TimestampIssue[] = [];
+  const warnings: TimestampIssue[] = [];
+
+  const frameRate = options.frameRate ?? DEFAULT_FRAME_RATE;
+  const videoDurationSeconds = options.videoDurationSeconds ?? null;
+
+  timestamps.forEach((timestamp, index) => {
+    const line = timestamp.line ?? index + 1;
+    const { startTime, endTime, label, cropOffset } = timestamp;
+    // Structured timestamps skip the text parser, so SMPTE frames are checked against the video's rate here
+    const unreadable = [startTime, endTime].find(time => !normalizeTimestamp(time, frameRate));
+    if (unreadable !== undefined) {
+      errors.push({ line, message: describeUnreadableTime(unreadable, frameRate) });
+      return;
+    }
+    const startSeconds = timestampToSeconds(startTime, frameRate);
+    const endSeconds = timestampToSeconds(endTime, frameRate);
+
+    if (startSeconds >= endSeconds) {
+      errors.push({ line, message: 'Start time must be before end time' });
+      return;
+    }
+
+    if (videoDurationSeconds && endSeconds > videoDurationSeconds) {
+      errors.push({ line, message: 'End time exceeds video duration' });
+      return;
+    }
+
+    // Overlaps are informational only
+    for (const previous of valid) {
+      const previousStart = timestampToSeconds(previous.startTime, frameRate);
+      const previousEnd = timestampToSeconds(previous.endTime, frameRate);
+
+      if (startSeconds < previousEnd && endSeconds > previousStart) {
+        const overlapDuration = Math.min(endSeconds, previousEnd) - Math.max(startSeconds, previousStart);
+        warnings.push({ line, message: `Overlaps with line ${previous.line} by ${overlapDuration.toFixed(1)} seconds` });
+      }
+    }
+
+    // Black frame warnings
+    if (startSeconds === 0) {
+      warnings.push({ line, message: 'Starting at 0:00 often contains black frames. Consider starting at 0:01 or later.' });
+    } else if (startSeconds < 1) {
+      warnings.push({ line, message: `Very early start time (${startTime}) may be in fade-in area. Black frame protection is active.` });
+    }
+
+    valid.push({ startTime, endTime, ...(label ? { label } : {}), ...(cropOffset !== undefined ? { cropOffset } : {}), line, duration: endSeconds - startSeconds });
+  });
+
+  return { timestamps: valid, errors, warnings };
+}
+
+function nearestBoundary(seconds: number, boundaries: number[], toleranceSeconds: number): number | null {
+  let nearest: number | null = null;
+  for (const boundary of boundaries) {
+    if (Math.abs(boundary - seconds) <= toleranceSeconds && (nearest === null || Math.abs(boundary - seconds) < Math.abs(nearest - seconds))) {
+      nearest = boundary;
+    }
+  }
+  return nearest;
+}
+
+// Move each clip's start and end onto the nearest shot boundary within the tolerance, so a clip neither opens
+// on the tail of the previous shot nor ends on the first frames of the next. Each move is reported per line.
+export function snapToShotBoundaries(
+  timestamps: ParsedTimestamp[],
+  boundaries: number[],
+  toleranceSeconds: number,
+  frameRate: number = DEFAULT_FRAME_RATE
+): { timestamps: ParsedTimestamp[]; snapped: TimestampIssue[] } {
+  const snapped: TimestampIssue[] = [];
+
+  const result = timestamps.map(timestamp => {
+    const startSeconds = timestampToSeconds(timestamp.startTime, frameRate);
+    const endSeconds = timestampToSeconds(timestamp.endTime, frameRate);
+    const newStart = nearestBoundary(startSeconds, boundaries, toleranceSeconds) ?? startSeconds;
+    const newEnd = nearestBoundary(endSeconds, boundaries, toleranceSeconds) ?? endSeconds;
+
+    // Snapping both edges onto neighbouring cuts could leave a sliver; keep such clips as typed
+    if (newEnd - newStart < (endSeconds - startSeconds) / 2 || (newStart === startSeconds && newEnd === endSeconds)) {
+      return timestamp;
+    }
+
+    const moves = [
+      newStart !== startSeconds && `start ${newStart > startSeconds ? '+' : ''}${(newStart - startSeconds).toFixed(2)}s`,
+      newEnd !== endSeconds && `end ${newEnd > endSeconds ? '+' : ''}${(newEnd - endSeconds).toFixed(2)}s`,
+    ].filter(Boolean);
+    snapped.push({ line: timestamp.line, message: `Snapped to shot boundaries (${moves.join(', ')})` });
+
+    return {
+      ...timestamp,
+      startTime: newStart === startSeconds ? timestamp.startTime : secondsToTimestamp(newStart),
+      endTime: newEnd === endSeconds ? timestamp.endTime : secondsToTimestamp(newEnd),
+      duration: newEnd - newStart,
+    };
+  });
+
+  return { timestamps: result, snapped };
+}
+
+// Parse free-form timestamp text (one clip per line) and validate the result
+export function parseTimestampText(text: string, options: TimestampParseOptions = {}): TimestampParseResult {
+  const frameRate = options.frameRate ?? DEFAULT_FRAME_RATE;
+  const chapters = options.mode === 'chapters';
+  const entries: Array<TimestampLine & { line: number }> = [];
+  const errors: TimestampIssue[] = [];
+
+  text.split('\n').forEach((rawLine, index) => {
+    const line = stripComment(rawLine.trim());
+    if (!line) return;
+
+    const parsed = parseTimestampLine(line, frameRate);
+    if ('error' in parsed) {
+      errors.push({ line: index + 1, message: parsed.error });
+      return;
+    }
+    if (!parsed.timestamp.endTime && !chapters) {
+      errors.push({ line: index + 1, message: 'Missing end time - use start-end, start +duration, or chapters mode' });
+      return;
+    }
+    entries.push({ ...parsed.timestamp, line: index + 1 });
+  });
+
+  // In chapters mode an open-ended entry runs until the next one starts; the last runs to the end of the video
+  const timestamps: Array<Timestamp & { line: number }> = [];
+  entries.forEach((entry, index) => {
+    const next = entries[index + 1];
+    let endTime = entry.endTime;
+    if (!endTime && next) {
+      endTime = next.startTime;
+    } else if (!endTime && options.videoDurationSeconds) {
+      // Rounded down to whole milliseconds so the end never lands past the real duration
+      endTime = secondsToTimestamp(Math.floor(options.videoDurationSeconds * 1000) / 1000);
+    }
+
+    if (!endTime) {
+      errors.push({ line: entry.line, message: 'Last chapter needs an end time because the video duration is unknown' });
+      return;
+    }
+    timestamps.push({ ...entry, endTime });
+  });
+
+  const validation = validateTimestamps(timestamps, options);
+  return {
+    timestamps: validation.timestamps,
+    errors: [...errors, ...validation.errors].sort((a, b) => a.line - b.line),
+    warnings: validation.warnings,
+  };
+}